@@ -0,0 +1,91 @@
+;(() => {
+  const vscode = window.acquireVsCodeApi()
+
+  // DOM elements
+  const title = document.getElementById("title")
+  const answersContainer = document.getElementById("answers")
+
+  const TITLES = {
+    explain: "Compare Providers: Explain Code",
+    refactor: "Compare Providers: Refactor Code",
+    generate: "Compare Providers: Generate Code",
+  }
+
+  // Handle messages from extension
+  window.addEventListener("message", (event) => {
+    const message = event.data
+
+    switch (message.type) {
+      case "update":
+        render(message)
+        break
+    }
+  })
+
+  answersContainer.addEventListener("click", (event) => {
+    const button = event.target.closest(".apply-button")
+    if (button) {
+      vscode.postMessage({ type: "apply", index: Number(button.dataset.index) })
+    }
+  })
+
+  function render(state) {
+    title.textContent = TITLES[state.kind] || "Compare Providers"
+    answersContainer.innerHTML = ""
+
+    state.answers.forEach((answer, index) => {
+      answersContainer.appendChild(createAnswerElement(answer, index, state.applyLabel))
+    })
+  }
+
+  function createAnswerElement(answer, index, applyLabel) {
+    const element = document.createElement("div")
+    const status = answer.error ? "failed" : answer.content !== undefined ? "completed" : "pending"
+    element.className = `answer ${status}`
+
+    element.innerHTML = `
+      <div class="answer-header">
+        <div class="answer-provider">${escapeHtml(answer.providerName)}</div>
+        <div class="answer-model">${escapeHtml(answer.model || "-")}</div>
+      </div>
+      <div class="answer-meta">${describeMeta(answer)}</div>
+      ${
+        status === "pending"
+          ? `<div class="answer-waiting">Waiting for an answer...</div>`
+          : status === "failed"
+            ? `<div class="answer-error">${escapeHtml(answer.error)}</div>`
+            : `<pre class="answer-content">${escapeHtml(answer.content)}</pre>
+               <button class="primary-button apply-button" data-index="${index}">${escapeHtml(applyLabel)}</button>`
+      }
+    `
+
+    return element
+  }
+
+  function describeMeta(answer) {
+    if (answer.durationMs === undefined) {
+      return ""
+    }
+
+    const parts = [`${(answer.durationMs / 1000).toFixed(1)} s`]
+    if (answer.usage) {
+      parts.push(`${answer.usage.promptTokens} + ${answer.usage.completionTokens} tokens`)
+    } else if (!answer.error) {
+      parts.push("usage not reported")
+    }
+    if (answer.finishReason && answer.finishReason !== "stop") {
+      parts.push(`finished with "${answer.finishReason}"`)
+    }
+
+    return parts.map(escapeHtml).join(" • ")
+  }
+
+  function escapeHtml(text) {
+    const div = document.createElement("div")
+    div.textContent = text
+    return div.innerHTML
+  }
+
+  // Initialize
+  vscode.postMessage({ type: "ready" })
+})()
@@ -10,6 +10,9 @@
   const newSessionBtn = document.getElementById("newSessionBtn")
   const contextBtn = document.getElementById("contextBtn")
   const contextInfo = document.getElementById("contextInfo")
+  const attachBtn = document.getElementById("attachBtn")
+  const attachmentInfo = document.getElementById("attachmentInfo")
+  const removeAttachmentsBtn = document.getElementById("removeAttachmentsBtn")
   const typingIndicator = document.getElementById("typingIndicator")
 
   let includeContext = false
@@ -21,6 +24,8 @@
   exportBtn.addEventListener("click", exportChat)
   newSessionBtn.addEventListener("click", newSession)
   contextBtn.addEventListener("click", toggleContext)
+  attachBtn.addEventListener("click", () => vscode.postMessage({ type: "attachImage" }))
+  removeAttachmentsBtn.addEventListener("click", () => vscode.postMessage({ type: "removeAttachments" }))
 
   messageInput.addEventListener("keydown", (e) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -53,6 +58,9 @@
       case "codeContext":
         updateContext(message.context)
         break
+      case "attachments":
+        updateAttachments(message.names)
+        break
     }
   })
 
@@ -187,6 +195,12 @@
     }
   }
 
+  function updateAttachments(names) {
+    attachmentInfo.querySelector(".attachment-names").textContent = names.join(", ")
+    attachmentInfo.style.display = names.length > 0 ? "block" : "none"
+    attachBtn.classList.toggle("active", names.length > 0)
+  }
+
   function showTypingIndicator(isTyping) {
     typingIndicator.style.display = isTyping ? "flex" : "none"
     if (isTyping) {
@@ -1,12 +1,26 @@
-import type { LLMProvider, LLMMessage } from "../providers/llmProvider"
+import * as vscode from "vscode"
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMCapability,
+  LLMRoute,
+  LLMOptions,
+  LLMResponse,
+  LLMImagePart,
+} from "../providers/llmProvider"
+import { ContextBudget, type CodeFocus } from "../utils/tokenBudget"
 
 export interface AgentContext {
   code?: string
   language?: string
   selection?: string
+  // Lines of `code` the user selected, kept when the code has to be windowed to fit the context
+  focus?: CodeFocus
   filePath?: string
   projectContext?: string
   previousResults?: any[]
+  // Images the user attached to the question, e.g. a screenshot from the workspace
+  images?: LLMImagePart[]
 }
 
 export interface AgentTask {
@@ -21,10 +35,19 @@ export interface AgentTask {
   completedAt?: Date
 }
 
+export interface AgentRoute extends LLMRoute {
+  capability: LLMCapability
+}
+
+export interface ContextTruncationEvent {
+  capability: string
+  notices: string[]
+}
+
 export interface AgentCapability {
   name: string
   description: string
-  execute(context: AgentContext, parameters?: any): Promise<any>
+  execute(context: AgentContext, parameters?: any, signal?: AbortSignal): Promise<any>
 }
 
 export abstract class BaseAgent {
@@ -32,6 +55,9 @@ export abstract class BaseAgent {
   protected capabilities: Map<string, AgentCapability> = new Map()
   protected conversationHistory: LLMMessage[] = []
   protected taskQueue: AgentTask[] = []
+  private routeResolver: ((capability: LLMCapability) => LLMRoute | undefined) | undefined
+  private readonly truncationEmitter = new vscode.EventEmitter<ContextTruncationEvent>()
+  readonly onDidTruncateContext = this.truncationEmitter.event
 
   constructor(llmProvider: LLMProvider) {
     this.llmProvider = llmProvider
@@ -40,7 +66,44 @@ export abstract class BaseAgent {
 
   protected abstract initializeCapabilities(): void
 
-  async executeTask(task: AgentTask): Promise<any> {
+  // Swaps the backing provider; conversation history and task queue are kept
+  setProvider(llmProvider: LLMProvider): void {
+    this.llmProvider = llmProvider
+  }
+
+  getProvider(): LLMProvider {
+    return this.llmProvider
+  }
+
+  // Lets capabilities run on a different provider/model than the agent's default one
+  setRouteResolver(resolver: (capability: LLMCapability) => LLMRoute | undefined): void {
+    this.routeResolver = resolver
+  }
+
+  protected route(capability: LLMCapability): AgentRoute {
+    return { ...(this.routeResolver?.(capability) ?? { provider: this.llmProvider }), capability }
+  }
+
+  protected complete(route: AgentRoute, messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    return route.provider.generateResponse(messages, { ...options, ...this.getRouteOptions(route) })
+  }
+
+  protected getRouteOptions(route: AgentRoute): LLMOptions {
+    const uncached = vscode.workspace.getConfiguration("pyr-dev").get<string[]>("cache.disabledCapabilities", ["chat"])
+    return { model: route.model, cache: !uncached.includes(route.capability), capability: route.capability }
+  }
+
+  protected createBudget(route: LLMRoute): ContextBudget {
+    return ContextBudget.forRoute(route)
+  }
+
+  protected reportTruncation(capability: string, budget: ContextBudget): void {
+    if (budget.truncated) {
+      this.truncationEmitter.fire({ capability, notices: budget.notices })
+    }
+  }
+
+  async executeTask(task: AgentTask, parameters?: any, signal?: AbortSignal): Promise<any> {
     task.status = "running"
 
     try {
@@ -49,7 +112,7 @@ export abstract class BaseAgent {
         throw new Error(`Unknown task type: ${task.type}`)
       }
 
-      const result = await capability.execute(task.context)
+      const result = await capability.execute(task.context, parameters, signal)
       task.result = result
       task.status = "completed"
       task.completedAt = new Date()
@@ -63,7 +126,7 @@ export abstract class BaseAgent {
     }
   }
 
-  async executeChainTasks(tasks: AgentTask[]): Promise<any[]> {
+  async executeChainTasks(tasks: AgentTask[], signal?: AbortSignal): Promise<any[]> {
     const results: any[] = []
     let context: AgentContext = {}
 
@@ -71,7 +134,7 @@ export abstract class BaseAgent {
       // Merge previous results into context
       task.context = { ...task.context, previousResults: results }
 
-      const result = await this.executeTask(task)
+      const result = await this.executeTask(task, undefined, signal)
       results.push(result)
 
       // Update context for next task
@@ -81,7 +144,7 @@ export abstract class BaseAgent {
     return results
   }
 
-  addToConversation(role: "user" | "assistant", content: string): void {
+  addToConversation(role: "user" | "assistant", content: LLMMessage["content"]): void {
     this.conversationHistory.push({ role, content })
 
     // Keep conversation history manageable (last 20 messages)
@@ -1,7 +1,51 @@
-import { BaseAgent, type AgentContext, type AgentTask } from "./baseAgent"
-import type { LLMProvider, LLMMessage } from "../providers/llmProvider"
+import { BaseAgent, type AgentContext, type AgentRoute, type AgentTask } from "./baseAgent"
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMResponseFormat,
+  LLMRoute,
+  LLMStreamEvent,
+} from "../providers/llmProvider"
 import type { CodeAnalyzer, CodeIssue } from "../analyzer/codeAnalyzer"
 import { PromptTemplates } from "../utils/promptTemplates"
+import { countMessageTokens, type CodeFocus } from "../utils/tokenBudget"
+
+const CODE_ANALYSIS_FORMAT: LLMResponseFormat = {
+  type: "json_schema",
+  name: "code_analysis",
+  schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string" },
+      issues: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            severity: { type: "string", enum: ["error", "warning", "info", "hint"] },
+            category: {
+              type: "string",
+              enum: ["syntax", "logic", "performance", "security", "style", "maintainability"],
+            },
+            line: { type: "integer", minimum: 1 },
+            message: { type: "string" },
+            suggestion: { type: "string" },
+          },
+          required: ["severity", "category", "line", "message"],
+        },
+      },
+    },
+    required: ["summary", "issues"],
+  },
+}
+
+export interface ComparisonRequest {
+  kind: "explain" | "refactor" | "generate"
+  language: string
+  // The code to explain or refactor, or the description of the code to generate
+  input: string
+}
 
 export class PyrDevAgent extends BaseAgent {
   private codeAnalyzer: CodeAnalyzer
@@ -16,24 +60,30 @@ export class PyrDevAgent extends BaseAgent {
     this.capabilities.set("analyze", {
       name: "Code Analysis",
       description: "Analyze code for issues, bugs, and improvements",
-      execute: async (context: AgentContext) => {
+      execute: async (context: AgentContext, _parameters?: any, signal?: AbortSignal) => {
         if (!context.code) {
           throw new Error("No code provided for analysis")
         }
 
-        const prompt = PromptTemplates.formatPrompt(PromptTemplates.CODE_ANALYSIS_PROMPT, {
-          language: context.language || "unknown",
-          code: context.code,
+        const route = this.route("analyze")
+        const messages = this.buildCodeMessages(
+          route,
+          "analyze",
+          PromptTemplates.CODE_ANALYSIS_PROMPT,
+          { language: context.language || "unknown" },
+          context.code,
+          // Reported issues carry line numbers, which only match the document when the model sees all of it
+          { allowTruncation: false },
+        )
+
+        const response = await this.complete(route, messages, {
+          ...PromptTemplates.getSamplingOptions(PromptTemplates.CODE_ANALYSIS_PROMPT),
+          signal,
+          responseFormat: CODE_ANALYSIS_FORMAT,
         })
-
-        const messages: LLMMessage[] = [
-          { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-          { role: "user", content: prompt },
-        ]
-
-        const response = await this.llmProvider.generateResponse(messages)
         return {
-          analysis: response.content,
+          analysis: response.parsed.summary,
+          issues: toCodeIssues(response.parsed.issues),
           staticAnalysis: await this.codeAnalyzer.analyzeCode(context.code, context.language || "javascript"),
         }
       },
@@ -43,23 +93,26 @@ export class PyrDevAgent extends BaseAgent {
     this.capabilities.set("fix", {
       name: "Code Fixing",
       description: "Fix identified issues in code",
-      execute: async (context: AgentContext, parameters?: { issues: string[] }) => {
+      execute: async (context: AgentContext, parameters?: { issues: string[] }, signal?: AbortSignal) => {
         if (!context.code) {
           throw new Error("No code provided for fixing")
         }
 
         const issues = parameters?.issues || []
-        const prompt = PromptTemplates.formatPrompt(PromptTemplates.CODE_FIX_PROMPT, {
-          code: context.code,
-          issues: issues.join("\n"),
+        const route = this.route("fix")
+        const messages = this.buildCodeMessages(
+          route,
+          "fix",
+          PromptTemplates.CODE_FIX_PROMPT,
+          { issues: issues.join("\n") },
+          context.code,
+          { allowTruncation: false },
+        )
+
+        const response = await this.complete(route, messages, {
+          ...PromptTemplates.getSamplingOptions(PromptTemplates.CODE_FIX_PROMPT),
+          signal,
         })
-
-        const messages: LLMMessage[] = [
-          { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-          { role: "user", content: prompt },
-        ]
-
-        const response = await this.llmProvider.generateResponse(messages)
         return response.content
       },
     })
@@ -68,7 +121,7 @@ export class PyrDevAgent extends BaseAgent {
     this.capabilities.set("generate", {
       name: "Code Generation",
       description: "Generate code from natural language description",
-      execute: async (context: AgentContext, parameters?: { description: string }) => {
+      execute: async (context: AgentContext, parameters?: { description: string }, signal?: AbortSignal) => {
         const description = parameters?.description || "Generate code"
         const language = context.language || "javascript"
 
@@ -77,12 +130,16 @@ export class PyrDevAgent extends BaseAgent {
           description,
         })
 
+        const route = this.route("generate")
         const messages: LLMMessage[] = [
           { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
           { role: "user", content: prompt },
         ]
 
-        const response = await this.llmProvider.generateResponse(messages)
+        const response = await this.complete(route, messages, {
+          ...PromptTemplates.getSamplingOptions(PromptTemplates.CODE_GENERATION_PROMPT),
+          signal,
+        })
         return response.content
       },
     })
@@ -91,22 +148,25 @@ export class PyrDevAgent extends BaseAgent {
     this.capabilities.set("explain", {
       name: "Code Explanation",
       description: "Explain code functionality and structure",
-      execute: async (context: AgentContext) => {
+      execute: async (context: AgentContext, _parameters?: any, signal?: AbortSignal) => {
         if (!context.code) {
           throw new Error("No code provided for explanation")
         }
 
-        const prompt = PromptTemplates.formatPrompt(PromptTemplates.CODE_EXPLANATION_PROMPT, {
-          language: context.language || "unknown",
-          code: context.code,
+        const route = this.route("explain")
+        const messages = this.buildCodeMessages(
+          route,
+          "explain",
+          PromptTemplates.CODE_EXPLANATION_PROMPT,
+          { language: context.language || "unknown" },
+          context.code,
+          { focus: context.focus },
+        )
+
+        const response = await this.complete(route, messages, {
+          ...PromptTemplates.getSamplingOptions(PromptTemplates.CODE_EXPLANATION_PROMPT),
+          signal,
         })
-
-        const messages: LLMMessage[] = [
-          { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-          { role: "user", content: prompt },
-        ]
-
-        const response = await this.llmProvider.generateResponse(messages)
         return response.content
       },
     })
@@ -115,7 +175,11 @@ export class PyrDevAgent extends BaseAgent {
     this.capabilities.set("chain", {
       name: "Chain Task Execution",
       description: "Execute a sequence of related tasks",
-      execute: async (context: AgentContext, parameters?: { tasks: string[]; currentTask: string }) => {
+      execute: async (
+        context: AgentContext,
+        parameters?: { tasks: string[]; currentTask: string },
+        signal?: AbortSignal,
+      ) => {
         const { tasks = [], currentTask = "" } = parameters || {}
         const previousContext = context.previousResults ? JSON.stringify(context.previousResults) : "None"
 
@@ -125,58 +189,63 @@ export class PyrDevAgent extends BaseAgent {
           request: context.code || "No specific request",
         })
 
-        const messages: LLMMessage[] = [
-          { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-          ...this.conversationHistory,
-        ]
+        const route = this.route("chain")
+        const budget = this.createBudget(route)
+        const system: LLMMessage = { role: "system", content: PromptTemplates.SYSTEM_PROMPT }
+        budget.reserve([system])
 
-        const response = await this.llmProvider.generateResponse(messages)
+        const messages: LLMMessage[] = [system, ...budget.fitHistory(this.conversationHistory)]
+        this.reportTruncation("chain", budget)
+
+        const response = await this.complete(route, messages, {
+          ...PromptTemplates.getSamplingOptions(PromptTemplates.CHAIN_TASK_PROMPT),
+          signal,
+        })
         return response.content
       },
     })
   }
 
   // High-level methods used by extension.ts
-  async processQuery(query: string, context?: AgentContext): Promise<string> {
-    this.addToConversation("user", query)
-
-    const messages: LLMMessage[] = [
-      { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-      ...this.conversationHistory,
-    ]
+  async processQuery(query: string, context?: AgentContext, signal?: AbortSignal): Promise<string> {
+    const history = [...this.conversationHistory]
+    this.addToConversation("user", toQuestionContent(query, context))
 
-    // Add context if provided
-    if (context?.code) {
-      messages.push({
-        role: "user",
-        content: `Context - Language: ${context.language}, Code: ${context.code}`,
-      })
-    }
+    const route = this.route("chat")
+    const messages = this.buildConversationMessages(route, "chat", query, history, context)
 
-    const response = await this.llmProvider.generateResponse(messages)
+    const response = await this.complete(route, messages, { signal })
     this.addToConversation("assistant", response.content)
 
     return response.content
   }
 
-  async analyzeAndFix(code: string, language: string): Promise<CodeIssue[]> {
+  async analyzeAndFix(code: string, language: string, signal?: AbortSignal): Promise<CodeIssue[]> {
     const context: AgentContext = { code, language }
 
     // First analyze the code
-    const analysisResult = await this.executeTask({
-      id: `analyze-${Date.now()}`,
-      type: "analyze",
-      description: "Analyze code for issues",
-      context,
-      status: "pending",
-      createdAt: new Date(),
-    })
+    const analysisResult = await this.executeTask(
+      {
+        id: `analyze-${Date.now()}`,
+        type: "analyze",
+        description: "Analyze code for issues",
+        context,
+        status: "pending",
+        createdAt: new Date(),
+      },
+      undefined,
+      signal,
+    )
 
-    // Extract issues from static analysis
-    return analysisResult.staticAnalysis || []
+    // Static analysis findings first, then whatever the model found on top of them
+    const staticIssues: CodeIssue[] = analysisResult.staticAnalysis || []
+    const modelIssues = (analysisResult.issues as CodeIssue[]).filter(
+      (issue) => !staticIssues.some((known) => known.line === issue.line && known.category === issue.category),
+    )
+    return [...staticIssues, ...modelIssues]
   }
 
-  async applyFixes(code: string, issues: CodeIssue[]): Promise<string> {
+  async applyFixes(code: string, issues: CodeIssue[], signal?: AbortSignal): Promise<string> {
     const context: AgentContext = { code }
     const issueDescriptions = issues.map((issue) => `${issue.severity}: ${issue.message} (Line ${issue.line})`)
 
@@ -190,27 +259,32 @@ export class PyrDevAgent extends BaseAgent {
         createdAt: new Date(),
       },
       { issues: issueDescriptions },
+      signal,
     )
 
     return fixResult
   }
 
-  async explainCode(code: string, language: string): Promise<string> {
+  async explainCode(code: string, language: string, signal?: AbortSignal): Promise<string> {
     const context: AgentContext = { code, language }
 
-    const explanationResult = await this.executeTask({
-      id: `explain-${Date.now()}`,
-      type: "explain",
-      description: "Explain code",
-      context,
-      status: "pending",
-      createdAt: new Date(),
-    })
+    const explanationResult = await this.executeTask(
+      {
+        id: `explain-${Date.now()}`,
+        type: "explain",
+        description: "Explain code",
+        context,
+        status: "pending",
+        createdAt: new Date(),
+      },
+      undefined,
+      signal,
+    )
 
     return explanationResult
   }
 
-  async generateCode(description: string, language: string): Promise<string> {
+  async generateCode(description: string, language: string, signal?: AbortSignal): Promise<string> {
     const context: AgentContext = { language }
 
     const generationResult = await this.executeTask(
@@ -223,12 +297,17 @@ export class PyrDevAgent extends BaseAgent {
         createdAt: new Date(),
       },
       { description },
+      signal,
     )
 
     return generationResult
   }
 
-  async executeChainedTasks(taskDescriptions: string[], initialContext?: AgentContext): Promise<any[]> {
+  async executeChainedTasks(
+    taskDescriptions: string[],
+    initialContext?: AgentContext,
+    signal?: AbortSignal,
+  ): Promise<any[]> {
     const tasks: AgentTask[] = taskDescriptions.map((desc, index) => ({
       id: `chain-${Date.now()}-${index}`,
       type: "chain",
@@ -238,17 +317,22 @@ export class PyrDevAgent extends BaseAgent {
       createdAt: new Date(),
     }))
 
-    return await this.executeChainTasks(tasks)
+    return await this.executeChainTasks(tasks, signal)
   }
 
   // Real-time assistance methods for inline completion and code actions
-  async generateInlineCompletion(context: {
-    code: string
-    language: string
-    currentLine: string
-    nextLine?: string
-    position: { line: number; character: number }
-  }): Promise<string> {
+  async generateInlineCompletion(
+    context: {
+      code: string
+      language: string
+      currentLine: string
+      nextLine?: string
+      position: { line: number; character: number }
+      // Lets a newer completion for the same document replace one still waiting for the provider
+      documentUri?: string
+    },
+    signal?: AbortSignal,
+  ): Promise<string> {
     const prompt = PromptTemplates.formatPrompt(PromptTemplates.INLINE_COMPLETION_PROMPT, {
       language: context.language,
       code: context.code,
@@ -257,21 +341,30 @@ export class PyrDevAgent extends BaseAgent {
       position: `Line ${context.position.line + 1}, Column ${context.position.character + 1}`,
     })
 
+    const route = this.route("inlineCompletion")
     const messages: LLMMessage[] = [
       { role: "system", content: PromptTemplates.INLINE_COMPLETION_SYSTEM },
       { role: "user", content: prompt },
     ]
 
-    const response = await this.llmProvider.generateResponse(messages)
+    const response = await this.complete(route, messages, {
+      ...PromptTemplates.getSamplingOptions(PromptTemplates.INLINE_COMPLETION_PROMPT),
+      signal,
+      supersedeKey: context.documentUri && `inlineCompletion:${context.documentUri}`,
+    })
     return response.content.trim()
   }
 
-  async explainCodeElement(context: {
-    element: string
-    context: string
-    language: string
-    line: string
-  }): Promise<string> {
+  async explainCodeElement(
+    context: {
+      element: string
+      context: string
+      language: string
+      line: string
+      documentUri?: string
+    },
+    signal?: AbortSignal,
+  ): Promise<string> {
     const prompt = PromptTemplates.formatPrompt(PromptTemplates.CODE_ELEMENT_EXPLANATION_PROMPT, {
       element: context.element,
       context: context.context,
@@ -279,12 +372,18 @@ export class PyrDevAgent extends BaseAgent {
       line: context.line,
     })
 
+    const route = this.route("hover")
     const messages: LLMMessage[] = [
       { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
       { role: "user", content: prompt },
     ]
 
-    const response = await this.llmProvider.generateResponse(messages)
+    const response = await this.complete(route, messages, {
+      ...PromptTemplates.getSamplingOptions(PromptTemplates.CODE_ELEMENT_EXPLANATION_PROMPT),
+      signal,
+      // Only the latest hover in a document is still on screen
+      supersedeKey: context.documentUri && `hover:${context.documentUri}`,
+    })
     return response.content
   }
 
@@ -293,65 +392,169 @@ export class PyrDevAgent extends BaseAgent {
     return { issues: staticAnalysis }
   }
 
-  async generateQuickFix(code: string, issue: string, language: string): Promise<string> {
-    const prompt = PromptTemplates.formatPrompt(PromptTemplates.QUICK_FIX_PROMPT, {
+  async generateQuickFix(code: string, issue: string, language: string, signal?: AbortSignal): Promise<string> {
+    const route = this.route("fix")
+    const messages = this.buildCodeMessages(
+      route,
+      "quickFix",
+      PromptTemplates.QUICK_FIX_PROMPT,
+      { issue, language },
       code,
-      issue,
-      language,
-    })
-
-    const messages: LLMMessage[] = [
-      { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-      { role: "user", content: prompt },
-    ]
+      {
+        allowTruncation: false,
+      },
+    )
 
-    const response = await this.llmProvider.generateResponse(messages)
+    const response = await this.complete(route, messages, {
+      ...PromptTemplates.getSamplingOptions(PromptTemplates.QUICK_FIX_PROMPT),
+      signal,
+    })
     return response.content
   }
 
-  async refactorCode(code: string, language: string): Promise<string> {
-    const prompt = PromptTemplates.formatPrompt(PromptTemplates.REFACTOR_PROMPT, {
-      code,
-      language,
+  async refactorCode(code: string, language: string, signal?: AbortSignal): Promise<string> {
+    const route = this.route("refactor")
+    const messages = this.buildCodeMessages(route, "refactor", PromptTemplates.REFACTOR_PROMPT, { language }, code, {
+      allowTruncation: false,
     })
 
-    const messages: LLMMessage[] = [
-      { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-      { role: "user", content: prompt },
-    ]
-
-    const response = await this.llmProvider.generateResponse(messages)
+    const response = await this.complete(route, messages, {
+      ...PromptTemplates.getSamplingOptions(PromptTemplates.REFACTOR_PROMPT),
+      signal,
+    })
     return response.content
   }
 
-  async optimizeCode(code: string, language: string): Promise<string> {
-    const prompt = PromptTemplates.formatPrompt(PromptTemplates.OPTIMIZE_PROMPT, {
-      code,
-      language,
+  async optimizeCode(code: string, language: string, signal?: AbortSignal): Promise<string> {
+    const route = this.route("refactor")
+    const messages = this.buildCodeMessages(route, "optimize", PromptTemplates.OPTIMIZE_PROMPT, { language }, code, {
+      allowTruncation: false,
     })
 
-    const messages: LLMMessage[] = [
-      { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-      { role: "user", content: prompt },
-    ]
-
-    const response = await this.llmProvider.generateResponse(messages)
+    const response = await this.complete(route, messages, {
+      ...PromptTemplates.getSamplingOptions(PromptTemplates.OPTIMIZE_PROMPT),
+      signal,
+    })
     return response.content
   }
 
-  async addComments(code: string, language: string): Promise<string> {
-    const prompt = PromptTemplates.formatPrompt(PromptTemplates.ADD_COMMENTS_PROMPT, {
+  async addComments(code: string, language: string, signal?: AbortSignal): Promise<string> {
+    const route = this.route("refactor")
+    const messages = this.buildCodeMessages(
+      route,
+      "addComments",
+      PromptTemplates.ADD_COMMENTS_PROMPT,
+      { language },
       code,
-      language,
+      {
+        allowTruncation: false,
+      },
+    )
+
+    const response = await this.complete(route, messages, {
+      ...PromptTemplates.getSamplingOptions(PromptTemplates.ADD_COMMENTS_PROMPT),
+      signal,
     })
+    return response.content
+  }
 
-    const messages: LLMMessage[] = [
-      { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-      { role: "user", content: prompt },
+  // Fills a template's {code} placeholder with as much of the code as the model's context allows. Capabilities whose
+  // answer replaces the code in the editor or points at its lines refuse to truncate, since a windowed input would
+  // come back windowed or with shifted line numbers.
+  private buildCodeMessages(
+    route: LLMRoute,
+    capability: string,
+    template: string,
+    variables: Record<string, string>,
+    code: string,
+    options: { focus?: CodeFocus; allowTruncation?: boolean } = {},
+  ): LLMMessage[] {
+    const budget = this.createBudget(route)
+    const system: LLMMessage = { role: "system", content: PromptTemplates.SYSTEM_PROMPT }
+    budget.reserve([
+      system,
+      { role: "user", content: PromptTemplates.formatPrompt(template, { ...variables, code: "" }) },
+    ])
+
+    const fitted = budget.fitCode(code, options.focus)
+    if (fitted.truncated && options.allowTruncation === false) {
+      throw new Error(
+        `The code is too large for the model's context window (only about ${fitted.shownLines} of ` +
+          `${fitted.totalLines} lines fit). Select a smaller range and try again.`,
+      )
+    }
+    this.reportTruncation(capability, budget)
+
+    return [
+      system,
+      { role: "user", content: PromptTemplates.formatPrompt(template, { ...variables, code: fitted.code }) },
     ]
+  }
 
-    const response = await this.llmProvider.generateResponse(messages)
-    return response.content
+  private buildConversationMessages(
+    route: LLMRoute,
+    capability: string,
+    query: string,
+    history: LLMMessage[],
+    context?: AgentContext,
+  ): LLMMessage[] {
+    const budget = this.createBudget(route)
+    const system: LLMMessage = { role: "system", content: PromptTemplates.SYSTEM_PROMPT }
+    const question: LLMMessage = { role: "user", content: toQuestionContent(query, context) }
+    budget.reserve([system, question])
+
+    let contextMessage: LLMMessage | undefined
+    if (context?.code) {
+      const prefix = `Context - Language: ${context.language}, Code: `
+      budget.reserve([{ role: "user", content: prefix }])
+
+      // Keep up to a quarter of the window for earlier turns so follow-up questions still make sense
+      const historyShare = Math.min(countMessageTokens(history), Math.floor(budget.available / 4))
+      const fitted = budget.fitCode(context.code, context.focus, budget.available - historyShare)
+      contextMessage = { role: "user", content: prefix + fitted.code }
+    }
+
+    const messages: LLMMessage[] = [system, ...budget.fitHistory(history), question]
+    if (contextMessage) {
+      messages.push(contextMessage)
+    }
+
+    this.reportTruncation(capability, budget)
+    return messages
+  }
+
+  // Sends a comparison request to one given provider with the prompt the matching command uses, fitted to that
+  // provider's context window. The cache is bypassed, so every answer and latency is a fresh one.
+  async compareOn(provider: LLMProvider, request: ComparisonRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const route: AgentRoute = { provider, capability: request.kind }
+    const { language, input } = request
+
+    let template: string
+    let messages: LLMMessage[]
+    switch (request.kind) {
+      case "explain":
+        template = PromptTemplates.CODE_EXPLANATION_PROMPT
+        messages = this.buildCodeMessages(route, "explain", template, { language }, input)
+        break
+      case "refactor":
+        template = PromptTemplates.REFACTOR_PROMPT
+        messages = this.buildCodeMessages(route, "refactor", template, { language }, input, { allowTruncation: false })
+        break
+      case "generate":
+        template = PromptTemplates.CODE_GENERATION_PROMPT
+        messages = [
+          { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
+          { role: "user", content: PromptTemplates.formatPrompt(template, { language, description: input }) },
+        ]
+        break
+    }
+
+    return provider.generateResponse(messages, {
+      ...PromptTemplates.getSamplingOptions(template),
+      signal,
+      ...this.getRouteOptions(route),
+      cache: false,
+    })
   }
 
   // Utility methods
@@ -363,20 +566,46 @@ export class PyrDevAgent extends BaseAgent {
     return [...this.conversationHistory]
   }
 
-  async streamResponse(query: string, context?: AgentContext): AsyncIterable<string> {
-    const messages: LLMMessage[] = [
-      { role: "system", content: PromptTemplates.SYSTEM_PROMPT },
-      ...this.conversationHistory,
-      { role: "user", content: query },
-    ]
-
-    if (context?.code) {
-      messages.push({
-        role: "user",
-        content: `Context - Language: ${context.language}, Code: ${context.code}`,
-      })
+  // The streaming counterpart of processQuery; the answer joins the conversation once the stream completes
+  async *streamResponse(query: string, context?: AgentContext, signal?: AbortSignal): AsyncIterable<LLMStreamEvent> {
+    const history = [...this.conversationHistory]
+    const route = this.route("chat")
+    const messages = this.buildConversationMessages(route, "chat", query, history, context)
+
+    let content = ""
+    for await (const event of route.provider.generateStreamResponse(messages, {
+      signal,
+      ...this.getRouteOptions(route),
+    })) {
+      if (event.type === "text") {
+        content += event.text
+      }
+      yield event
     }
 
-    return this.llmProvider.generateStreamResponse(messages)
+    this.addToConversation("user", toQuestionContent(query, context))
+    this.addToConversation("assistant", content)
   }
 }
+
+function toCodeIssues(issues: any[]): CodeIssue[] {
+  return issues.map((issue, index) => ({
+    id: `llm-${issue.line}-${index}`,
+    severity: issue.severity,
+    message: issue.message,
+    line: issue.line,
+    column: 0,
+    category: issue.category,
+    suggestion: issue.suggestion,
+    fixable: true,
+  }))
+}
+
+// Attached images travel with the question itself, so follow-up turns can still refer to them
+function toQuestionContent(query: string, context?: AgentContext): LLMMessage["content"] {
+  if (!context?.images?.length) {
+    return query
+  }
+
+  return [{ type: "text", text: query }, ...context.images]
+}
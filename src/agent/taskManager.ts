@@ -13,6 +13,7 @@ export interface TaskChain {
 export class TaskManager {
   private taskChains: Map<string, TaskChain> = new Map()
   private activeTasks: Map<string, AgentTask> = new Map()
+  private chainControllers: Map<string, AbortController> = new Map()
 
   createTaskChain(name: string, taskDescriptions: string[], initialContext?: AgentContext): TaskChain {
     const chainId = `chain-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
@@ -55,7 +56,7 @@ export class TaskManager {
     }
   }
 
-  async executeTaskChain(chainId: string, agent: any): Promise<any[]> {
+  async executeTaskChain(chainId: string, agent: any, signal?: AbortSignal): Promise<any[]> {
     const chain = this.taskChains.get(chainId)
     if (!chain) {
       throw new Error(`Task chain ${chainId} not found`)
@@ -64,6 +65,14 @@ export class TaskManager {
     chain.status = "running"
     const results: any[] = []
 
+    // Cancelling the chain (or the caller's signal) aborts the in-flight provider request
+    const controller = new AbortController()
+    this.chainControllers.set(chainId, controller)
+    if (signal?.aborted) {
+      controller.abort()
+    }
+    signal?.addEventListener("abort", () => controller.abort(), { once: true })
+
     try {
       for (let i = 0; i < chain.tasks.length; i++) {
         const task = chain.tasks[i]
@@ -74,10 +83,16 @@ export class TaskManager {
           previousResults: results,
         }
 
+        if (controller.signal.aborted) {
+          const error = new Error("Task chain cancelled")
+          error.name = "AbortError"
+          throw error
+        }
+
         this.activeTasks.set(task.id, task)
 
         try {
-          const result = await agent.executeTask(task)
+          const result = await agent.executeTask(task, undefined, controller.signal)
           results.push(result)
           chain.results.push(result)
         } finally {
@@ -93,6 +108,8 @@ export class TaskManager {
       chain.status = "failed"
       chain.completedAt = new Date()
       throw error
+    } finally {
+      this.chainControllers.delete(chainId)
     }
   }
 
@@ -129,6 +146,7 @@ export class TaskManager {
 
     chain.status = "failed"
     chain.completedAt = new Date()
+    this.chainControllers.get(chainId)?.abort()
 
     return true
   }
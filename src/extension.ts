@@ -1,6 +1,7 @@
 import * as vscode from "vscode"
-import { PyrDevAgent } from "./agent/pyrDevAgent"
+import { PyrDevAgent, type ComparisonRequest } from "./agent/pyrDevAgent"
 import { LLMProviderManager } from "./providers/llmProvider"
+import { ProviderRegistry } from "./providers/providerRegistry"
 import { UniversalCodeAnalyzer } from "./analyzer/codeAnalyzer"
 import { ChatViewProvider } from "./views/chatViewProvider"
 import { TaskManager } from "./agent/taskManager"
@@ -8,7 +9,16 @@ import { StatusBarManager } from "./ui/statusBar"
 import { QuickPickManager } from "./ui/quickPick"
 import { registerContextMenus } from "./ui/contextMenus"
 import { ChainTaskViewProvider } from "./views/chainTaskViewProvider"
+import { CompareProvidersPanel } from "./views/compareProvidersPanel"
 import { RealTimeCodeProvider } from "./providers/realTimeProvider"
+import { isAbortError, toAbortSignal } from "./utils/cancellation"
+import { LLMProviderError } from "./providers/providerErrors"
+import { ConfigManager } from "./utils/configManager"
+import { SecretManager } from "./utils/secretManager"
+import { ResponseCache } from "./utils/responseCache"
+import { UsageLedger, budgetSetting, type UsageBucket } from "./utils/usageLedger"
+import { ProviderLog } from "./utils/providerLog"
+import { CONNECTION_PROBLEMS, type CheckResult, type ProviderDiagnostics } from "./providers/providerDiagnostics"
 
 let pyrAgent: PyrDevAgent
 let chatViewProvider: ChatViewProvider
@@ -17,17 +27,67 @@ let chainTaskViewProvider: ChainTaskViewProvider
 let statusBarManager: StatusBarManager
 let quickPickManager: QuickPickManager
 let realTimeProvider: RealTimeCodeProvider
+let llmProviderManager: LLMProviderManager
+let responseCache: ResponseCache
+let usageLedger: UsageLedger
+let providerLog: ProviderLog
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
   console.log("Pyr Dev extension is now active!")
 
+  // API keys live in secret storage; load them before any provider is asked whether it is configured
+  const secretManager = await SecretManager.initialize(context)
+  const migratedKeys = await secretManager.migrateFromSettings(context.globalState)
+  if (migratedKeys.length > 0) {
+    ConfigManager.getInstance().refresh()
+    vscode.window.showInformationMessage(
+      `Pyr Dev moved ${migratedKeys.length} API key(s) from settings.json to secure storage.`,
+    )
+  }
+
   // Initialize core components
-  const llmProviderManager = new LLMProviderManager()
+  providerLog = new ProviderLog()
+  responseCache = new ResponseCache(vscode.Uri.joinPath(context.globalStorageUri, "response-cache"), providerLog)
+  usageLedger = new UsageLedger(context.globalState)
+  context.subscriptions.push(usageLedger, providerLog)
+  llmProviderManager = new LLMProviderManager(responseCache, usageLedger, providerLog)
   const codeAnalyzer = new UniversalCodeAnalyzer()
-  pyrAgent = new PyrDevAgent(llmProviderManager.getActiveProvider(), codeAnalyzer)
+  const activeProvider = llmProviderManager.getActiveProvider()
+  pyrAgent = new PyrDevAgent(activeProvider, codeAnalyzer)
+  pyrAgent.setRouteResolver((capability) => llmProviderManager.getRoute(capability))
 
   taskManager = new TaskManager()
-  statusBarManager = new StatusBarManager(pyrAgent)
+  statusBarManager = new StatusBarManager(pyrAgent, usageLedger)
+
+  context.subscriptions.push(
+    usageLedger.onDidChange(() => statusBarManager.updateStatusBar()),
+    usageLedger.onBudgetExceeded(async (status) => {
+      const blocking =
+        vscode.workspace.getConfiguration("pyr-dev").get<string>("usage.budgetAction", "warn") === "block"
+      const action = await vscode.window.showWarningMessage(
+        `Pyr Dev: the ${status.period} budget of $${status.budget.toFixed(2)} is used up ` +
+          `($${status.spent.toFixed(2)} spent).${blocking ? " Further requests are blocked." : ""}`,
+        "Show Usage",
+        "Change Budget",
+      )
+      if (action === "Show Usage") {
+        showUsage()
+      } else if (action === "Change Budget") {
+        vscode.commands.executeCommand("workbench.action.openSettings", `pyr-dev.${budgetSetting(status.period)}`)
+      }
+    }),
+  )
+
+  // Large files and long conversations are cut to fit the model; let the user know what was left out
+  context.subscriptions.push(
+    pyrAgent.onDidTruncateContext((event) =>
+      vscode.window.showInformationMessage(`Pyr Dev: ${event.notices.join(" ")}`),
+    ),
+  )
+
+  // Reflect per-request failover in the status bar
+  context.subscriptions.push(activeProvider.onDidAnswer((event) => statusBarManager.setAnsweringProvider(event)))
+  context.subscriptions.push(activeProvider)
   quickPickManager = new QuickPickManager(pyrAgent)
 
   realTimeProvider = new RealTimeCodeProvider(pyrAgent)
@@ -64,6 +124,12 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand("pyr-dev.explainCode", explainCode),
     vscode.commands.registerCommand("pyr-dev.generateCode", generateCode),
     vscode.commands.registerCommand("pyr-dev.openSettings", openSettings),
+    vscode.commands.registerCommand("pyr-dev.setApiKey", setApiKey),
+    vscode.commands.registerCommand("pyr-dev.clearResponseCache", clearResponseCache),
+    vscode.commands.registerCommand("pyr-dev.showUsage", showUsage),
+    vscode.commands.registerCommand("pyr-dev.testConnection", testConnection),
+    vscode.commands.registerCommand("pyr-dev.showLog", () => providerLog.show()),
+    vscode.commands.registerCommand("pyr-dev.compareProviders", () => compareProviders(context.extensionUri)),
     vscode.commands.registerCommand("pyr-dev.createTaskChain", createTaskChain),
     vscode.commands.registerCommand("pyr-dev.executeTaskChain", executeTaskChain),
     vscode.commands.registerCommand("pyr-dev.showTaskChains", showTaskChains),
@@ -83,6 +149,22 @@ export function activate(context: vscode.ExtensionContext) {
 
   statusBarManager.show()
 
+  // Pick up provider, key and model changes without a window reload
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("pyr-dev")) {
+        onConfigurationChanged(event)
+      }
+    }),
+  )
+
+  context.subscriptions.push(
+    secretManager.onDidChange((key) => {
+      ConfigManager.getInstance().refresh()
+      refreshProviders(ProviderRegistry.getInstance().getIdsUsingSecret(key), false)
+    }),
+  )
+
   context.subscriptions.push(
     vscode.workspace.onDidChangeTextDocument((event) => {
       if (event.document.uri.scheme === "file") {
@@ -109,6 +191,31 @@ export function activate(context: vscode.ExtensionContext) {
   vscode.window.showInformationMessage("Pyr Dev AI Assistant is ready!")
 }
 
+function onConfigurationChanged(event: vscode.ConfigurationChangeEvent) {
+  ConfigManager.getInstance().refresh()
+
+  const providerSelectionChanged =
+    event.affectsConfiguration("pyr-dev.defaultProvider") ||
+    event.affectsConfiguration("pyr-dev.failover") ||
+    event.affectsConfiguration("pyr-dev.routing")
+
+  refreshProviders(ProviderRegistry.getInstance().getIdsAffectedBy(event), providerSelectionChanged)
+}
+
+function refreshProviders(affectedProviders: string[], providerSelectionChanged: boolean) {
+  if (affectedProviders.length > 0) {
+    llmProviderManager.reloadProviders(affectedProviders)
+  }
+
+  if (affectedProviders.length > 0 || providerSelectionChanged) {
+    // The agent keeps its conversation history across the swap
+    pyrAgent.setProvider(llmProviderManager.getActiveProvider())
+    realTimeProvider.clearCache()
+  }
+
+  statusBarManager.updateStatusBar()
+}
+
 async function askAgent() {
   const input = await vscode.window.showInputBox({
     prompt: "Ask Pyr Dev Agent anything about your code",
@@ -122,6 +229,7 @@ async function askAgent() {
           code: editor.document.getText(),
           language: editor.document.languageId,
           selection: editor.selection ? editor.document.getText(editor.selection) : undefined,
+          focus: { startLine: editor.selection.start.line, endLine: editor.selection.end.line },
         }
       : undefined
 
@@ -151,17 +259,18 @@ async function fixCode() {
   }
 
   try {
-    vscode.window.withProgress(
+    await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: "Pyr Dev is analyzing and fixing your code...",
-        cancellable: false,
+        cancellable: true,
       },
-      async () => {
-        const fixes = await pyrAgent.analyzeAndFix(code, editor.document.languageId)
+      async (progress, token) => {
+        const signal = toAbortSignal(token)
+        const fixes = await pyrAgent.analyzeAndFix(code, editor.document.languageId, signal)
 
         if (fixes.length > 0) {
-          const fixedCode = await pyrAgent.applyFixes(code, fixes)
+          const fixedCode = await pyrAgent.applyFixes(code, fixes, signal)
 
           // Show diff and apply changes
           const edit = new vscode.WorkspaceEdit()
@@ -177,6 +286,9 @@ async function fixCode() {
       },
     )
   } catch (error) {
+    if (isAbortError(error)) {
+      return
+    }
     vscode.window.showErrorMessage(`Fix Code Error: ${error}`)
   }
 }
@@ -244,6 +356,281 @@ function openSettings() {
   vscode.commands.executeCommand("workbench.action.openSettings", "pyr-dev")
 }
 
+async function setApiKey() {
+  const registry = ProviderRegistry.getInstance()
+  const providerId = await quickPickManager.showProviderSelection(
+    "Select the provider to set an API key for",
+    (descriptor) => descriptor.configSchema.some((field) => field.secret),
+  )
+  const descriptor = providerId ? registry.get(providerId) : undefined
+  if (!descriptor) return
+
+  const secretManager = SecretManager.getInstance()
+
+  for (const field of descriptor.configSchema.filter((field) => field.secret)) {
+    const hasValue = !!secretManager.get(field.key)
+    const value = await vscode.window.showInputBox({
+      prompt: `${descriptor.displayName} ${field.label}`,
+      placeHolder: hasValue ? "Leave empty to remove the stored key" : `Paste your ${field.label}`,
+      password: true,
+      ignoreFocusOut: true,
+    })
+
+    if (value === undefined) return
+
+    if (!value.trim() && !hasValue) continue
+
+    await secretManager.store(field.key, value.trim())
+    vscode.window.showInformationMessage(
+      value.trim()
+        ? `Saved ${descriptor.displayName} ${field.label} to secure storage`
+        : `Removed ${descriptor.displayName} ${field.label}`,
+    )
+  }
+}
+
+async function clearResponseCache() {
+  await responseCache.clear()
+  vscode.window.showInformationMessage("Pyr Dev response cache cleared")
+}
+
+async function showUsage() {
+  const registry = ProviderRegistry.getInstance()
+  const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`
+
+  const section = (title: string, buckets: UsageBucket[]) => {
+    if (buckets.length === 0) {
+      return `## ${title}\n\nNo requests yet.\n`
+    }
+
+    const rows = buckets.map(
+      (bucket) =>
+        `| ${registry.get(bucket.provider)?.displayName ?? bucket.provider} | ${bucket.model || "-"} | ` +
+        `${bucket.capability} | ${bucket.requests} | ${bucket.promptTokens} | ${bucket.completionTokens} | ` +
+        `${formatCost(bucket.cost)} |`,
+    )
+    const total = buckets.reduce((sum, bucket) => sum + bucket.cost, 0)
+
+    return [
+      `## ${title}`,
+      "",
+      "| Provider | Model | Capability | Requests | Prompt tokens | Completion tokens | Cost |",
+      "| --- | --- | --- | ---: | ---: | ---: | ---: |",
+      ...rows,
+      "",
+      `**Total: ${formatCost(total)}**`,
+      "",
+    ].join("\n")
+  }
+
+  const budgets = usageLedger
+    .getBudgets()
+    .map((status) =>
+      status.budget > 0
+        ? `- ${status.period === "daily" ? "Daily" : "Monthly"} budget: ${formatCost(status.spent)} of ${formatCost(status.budget)}`
+        : `- No ${status.period} budget set (\`pyr-dev.${budgetSetting(status.period)}\`)`,
+    )
+
+  const content = [
+    "# Pyr Dev Usage",
+    "",
+    ...budgets,
+    "",
+    section("Today", usageLedger.getBreakdown("daily")),
+    section("This Month", usageLedger.getBreakdown("monthly")),
+    "Costs are estimated from `pyr-dev.usage.prices`; answers served from the response cache are free.",
+  ].join("\n")
+
+  const doc = await vscode.workspace.openTextDocument({ content, language: "markdown" })
+  await vscode.window.showTextDocument(doc)
+}
+
+async function testConnection() {
+  const registry = ProviderRegistry.getInstance()
+  // Replay and mock answer locally, so there is no connection to test
+  const ids = registry.getConfiguredIds().filter((id) => !registry.get(id)?.offline)
+  if (ids.length === 0) {
+    vscode.window.showWarningMessage(
+      'No LLM provider is configured. Run "Pyr Dev: Set API Key" or check your settings.',
+    )
+    return
+  }
+
+  let results: ProviderDiagnostics[]
+  try {
+    results = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: "Testing provider connections", cancellable: true },
+      async (progress, token) => {
+        const signal = toAbortSignal(token)
+        const diagnostics: ProviderDiagnostics[] = []
+
+        for (const id of ids) {
+          progress.report({ message: registry.get(id)?.displayName ?? id, increment: 100 / ids.length })
+          diagnostics.push(await llmProviderManager.diagnoseProvider(id, signal))
+        }
+        return diagnostics
+      },
+    )
+  } catch (error) {
+    if (isAbortError(error)) {
+      return
+    }
+    throw error
+  }
+
+  const describeCheck = (check: CheckResult, success: string) =>
+    check.ok
+      ? `✅ ${success}`
+      : `❌ ${CONNECTION_PROBLEMS[check.problem ?? "other"].label} after ${check.durationMs} ms`
+
+  const section = (result: ProviderDiagnostics) => {
+    const { connection, completion, streaming } = result
+    const failed = [completion, streaming].filter((check): check is CheckResult => !!check && !check.ok)
+    const model =
+      completion.resolvedModel && completion.resolvedModel !== connection.model
+        ? `${connection.model || "-"} (served by ${completion.resolvedModel})`
+        : connection.model || completion.resolvedModel || "-"
+
+    return [
+      `## ${failed.length === 0 ? "✅" : "❌"} ${registry.get(result.providerId)?.displayName ?? result.providerName}`,
+      "",
+      "| | |",
+      "| --- | --- |",
+      `| Endpoint | ${connection.endpoint || "-"} |`,
+      `| Model | ${model} |`,
+      `| API version | ${connection.apiVersion || "-"} |`,
+      `| Request | ${describeCheck(completion, `${completion.durationMs} ms, replied "${completion.reply}"`)} |`,
+      `| Streaming | ${
+        streaming
+          ? describeCheck(
+              streaming,
+              `first token after ${streaming.firstTokenMs} ms, ${streaming.chunks} chunks in ` +
+                `${streaming.durationMs} ms, finished with "${streaming.finishReason ?? "-"}", ` +
+                `usage ${streaming.usageReported ? "reported" : "estimated"}`,
+            )
+          : "Skipped, the provider is unreachable"
+      } |`,
+      "",
+      ...failed.flatMap((check) => [
+        `> ${CONNECTION_PROBLEMS[check.problem ?? "other"].hint}`,
+        `> \`${check.error}\``,
+        "",
+      ]),
+    ].join("\n")
+  }
+
+  const unconfigured = registry.getIds().filter((id) => !ids.includes(id) && !registry.get(id)?.offline)
+  const content = [
+    "# Pyr Dev Connection Test",
+    "",
+    `Tested ${new Date().toLocaleString()} without retries, failover or the response cache.`,
+    "",
+    ...results.map(section),
+    unconfigured.length > 0
+      ? `Not configured: ${unconfigured.map((id) => registry.get(id)?.displayName ?? id).join(", ")}`
+      : "",
+  ].join("\n")
+
+  const doc = await vscode.workspace.openTextDocument({ content, language: "markdown" })
+  await vscode.commands.executeCommand("markdown.showPreview", doc.uri)
+}
+
+async function compareProviders(extensionUri: vscode.Uri) {
+  const candidates = llmProviderManager.getComparisonCandidates()
+  if (candidates.length < 2) {
+    vscode.window.showWarningMessage(
+      'Comparing needs at least two configured providers. Run "Pyr Dev: Set API Key" or check your settings.',
+    )
+    return
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    [
+      { label: "$(book) Explain Code", description: "Explain the selected code", task: "explain" as const },
+      { label: "$(wrench) Refactor Code", description: "Refactor the selected code", task: "refactor" as const },
+      { label: "$(add) Generate Code", description: "Generate code from a description", task: "generate" as const },
+    ],
+    { placeHolder: "What should every configured provider answer?" },
+  )
+  if (!selected) return
+
+  const editor = vscode.window.activeTextEditor
+  let request: ComparisonRequest
+
+  if (selected.task === "generate") {
+    const description = await vscode.window.showInputBox({
+      prompt: "Describe what code you want to generate",
+      placeHolder: "e.g., Create a function that sorts an array of objects by date",
+    })
+    if (!description) return
+
+    request = { kind: "generate", language: editor?.document.languageId || "javascript", input: description }
+  } else {
+    if (!editor) {
+      vscode.window.showWarningMessage("No active editor found")
+      return
+    }
+
+    const code = editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection)
+    if (!code.trim()) {
+      vscode.window.showWarningMessage("No code selected or found")
+      return
+    }
+
+    request = { kind: selected.task, language: editor.document.languageId, input: code }
+  }
+
+  CompareProvidersPanel.show(
+    extensionUri,
+    pyrAgent,
+    request,
+    candidates.map((candidate) => ({ ...candidate, model: llmProviderManager.getModelName(candidate.id) })),
+    createComparisonApply(request, editor),
+  )
+}
+
+// What applying the chosen answer does: explanations go to the chat, code replaces the selection or is inserted at
+// the cursor, both in the editor that was active when the comparison started
+function createComparisonApply(
+  request: ComparisonRequest,
+  editor: vscode.TextEditor | undefined,
+): (content: string) => Promise<void> {
+  if (request.kind === "explain") {
+    return async (content) => {
+      chatViewProvider.addMessage("user", "Explain this code")
+      chatViewProvider.addMessage("assistant", content)
+    }
+  }
+
+  if (!editor) {
+    return async (content) => {
+      const doc = await vscode.workspace.openTextDocument({ content, language: request.language })
+      await vscode.window.showTextDocument(doc)
+    }
+  }
+
+  const document = editor.document
+  const version = document.version
+  const selection = editor.selection
+  const range =
+    request.kind === "refactor"
+      ? selection.isEmpty
+        ? new vscode.Range(0, 0, document.lineCount, 0)
+        : selection
+      : new vscode.Range(selection.active, selection.active)
+
+  return async (content) => {
+    // The answers were written for the code as it was; applying them over edited code would corrupt it
+    if (document.isClosed || document.version !== version) {
+      throw new Error(`${vscode.workspace.asRelativePath(document.uri)} changed since the comparison started`)
+    }
+
+    const edit = new vscode.WorkspaceEdit()
+    edit.replace(document.uri, range, content)
+    await vscode.workspace.applyEdit(edit)
+  }
+}
+
 async function createTaskChain() {
   const tasks = await quickPickManager.showTaskChainBuilder()
   if (!tasks || tasks.length === 0) {
@@ -335,7 +722,7 @@ async function executeTaskChainById(chainId: string) {
         cancellable: true,
       },
       async (progress, token) => {
-        const results = await taskManager.executeTaskChain(chainId, pyrAgent)
+        const results = await taskManager.executeTaskChain(chainId, pyrAgent, toAbortSignal(token))
 
         progress.report({ increment: 100, message: "Completed!" })
 
@@ -353,7 +740,13 @@ async function executeTaskChainById(chainId: string) {
       },
     )
   } catch (error: any) {
-    statusBarManager.showError(`Failed: ${chain.name}`)
+    if (isAbortError(error)) {
+      statusBarManager.updateStatusBar()
+      vscode.window.showInformationMessage(`Task chain "${chain.name}" cancelled`)
+      chainTaskViewProvider.refresh()
+      return
+    }
+    statusBarManager.showError(error instanceof LLMProviderError ? error : `Failed: ${chain.name}`)
     vscode.window.showErrorMessage(`Task chain execution failed: ${error.message}`)
     chainTaskViewProvider.refresh()
   }
@@ -522,7 +915,8 @@ async function switchProvider() {
     await config.update("defaultProvider", newProvider, vscode.ConfigurationTarget.Global)
 
     statusBarManager.updateStatusBar()
-    vscode.window.showInformationMessage(`Switched to ${newProvider === "azure" ? "Azure OpenAI" : "Google Gemini"}`)
+    const displayName = ProviderRegistry.getInstance().get(newProvider)?.displayName ?? newProvider
+    vscode.window.showInformationMessage(`Switched to ${displayName}`)
   }
 }
 
@@ -1,112 +1,271 @@
 import * as vscode from "vscode"
 import { OpenAI } from "openai"
-import type { LLMProvider, LLMMessage, LLMResponse, LLMOptions } from "./llmProvider"
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMConnectionInfo,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { isAbortError } from "../utils/cancellation"
+import { getContextWindow } from "../utils/tokenBudget"
+import { SecretManager } from "../utils/secretManager"
+import { getUserSetting } from "../utils/configManager"
+import { createHttpAgent, getTransportSettings } from "../utils/transport"
+import { BearerTokenSource } from "../utils/bearerToken"
+import { LLMAuthError, LLMUnsupportedError, classifyProviderError, type LLMProviderError } from "./providerErrors"
+import { embedInBatches } from "./embeddings"
+import {
+  fromOpenAIEmbeddings,
+  fromOpenAIFinishReason,
+  fromOpenAIStreamChunk,
+  fromOpenAIToolCalls,
+  fromOpenAIUsage,
+  toOpenAIEmbeddingParams,
+  toOpenAIMessages,
+  toOpenAIResponseFormat,
+  toOpenAISamplingParams,
+  toOpenAIToolChoice,
+  toOpenAITools,
+} from "./openAIFormat"
+
+// json_schema response formats need 2024-08-01-preview or later
+export const DEFAULT_AZURE_API_VERSION = "2024-08-01-preview"
+
+const PROVIDER_NAME = "Azure OpenAI"
+const ENTRA_ID_REMEDY = "Check pyr-dev.azureOpenAI.tokenCommand or pyr-dev.azureOpenAI.tokenFile in your user settings."
+
+// The API takes up to 2048 inputs per request, but also caps the tokens per request; this leaves room for long chunks
+const EMBEDDING_BATCH_SIZE = 256
 
 export class AzureOpenAIProvider implements LLMProvider {
   private client: OpenAI | null = null
+  // The key or token the cached client was built with
+  private clientCredential: string | undefined
+  private tokenSource: BearerTokenSource | undefined
 
-  private getClient(): OpenAI {
-    if (!this.client) {
-      const config = vscode.workspace.getConfiguration("pyr-dev")
-      const apiKey = config.get<string>("azureOpenAI.apiKey")
-      const endpoint = config.get<string>("azureOpenAI.endpoint")
+  private async getClient(): Promise<OpenAI> {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const endpoint = config.get<string>("azureOpenAI.endpoint")
+    const useEntraId = config.get<string>("azureOpenAI.authentication", "apiKey") === "entraId"
+    const credential = useEntraId ? await this.getToken() : SecretManager.getInstance().get("azureOpenAI.apiKey")
 
-      if (!apiKey || !endpoint) {
-        throw new Error("Azure OpenAI API key and endpoint must be configured")
-      }
+    if (!credential || !endpoint) {
+      throw new Error("Azure OpenAI API key and endpoint must be configured")
+    }
+
+    // A refreshed token needs a new client, just like changed settings do
+    if (this.client && this.clientCredential !== credential) {
+      this.client = null
+    }
+
+    if (!this.client) {
+      const baseURL = `${endpoint}/openai/deployments`
+      const transport = getTransportSettings()
 
       this.client = new OpenAI({
-        apiKey: apiKey,
-        baseURL: `${endpoint}/openai/deployments`,
-        defaultQuery: { "api-version": "2024-02-15-preview" },
-        defaultHeaders: {
-          "api-key": apiKey,
-        },
+        // The SDK sends this as "Authorization: Bearer", which is how Azure expects Entra ID tokens
+        apiKey: credential,
+        baseURL,
+        defaultQuery: { "api-version": this.getApiVersion() },
+        // Retries are handled by ResilientProvider so that every provider backs off the same way
+        maxRetries: 0,
+        timeout: transport.timeoutMs,
+        httpAgent: createHttpAgent(baseURL, transport),
+        defaultHeaders: useEntraId ? transport.headers : { ...transport.headers, "api-key": credential },
       })
+      this.clientCredential = credential
     }
 
     return this.client
   }
 
+  private async getToken(): Promise<string> {
+    if (!this.tokenSource) {
+      // User settings only: a workspace must not pick a command for us to run
+      this.tokenSource = new BearerTokenSource({
+        command: getUserSetting("azureOpenAI.tokenCommand", "") || undefined,
+        file: getUserSetting("azureOpenAI.tokenFile", "") || undefined,
+      })
+    }
+
+    try {
+      return await this.tokenSource.getToken()
+    } catch (error: any) {
+      throw new LLMAuthError(
+        `Could not get an Entra ID token: ${error.message}`,
+        PROVIDER_NAME,
+        undefined,
+        error,
+        ENTRA_ID_REMEDY,
+      )
+    }
+  }
+
+  private getApiVersion(): string {
+    return (
+      vscode.workspace.getConfiguration("pyr-dev").get<string>("azureOpenAI.apiVersion") || DEFAULT_AZURE_API_VERSION
+    )
+  }
+
+  // Older API versions reject stream_options; their streams are metered with locally counted tokens instead
+  private reportsStreamUsage(): boolean {
+    return this.getApiVersion() >= "2024-09-01"
+  }
+
+  private toProviderError(error: any): LLMProviderError {
+    // The token was rejected before its stated expiry (e.g. revoked); the next request fetches a new one
+    if (error?.status === 401) {
+      this.tokenSource?.invalidate()
+    }
+
+    const providerError = classifyProviderError(error, this.getProviderName())
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    if (providerError.kind === "auth" && config.get<string>("azureOpenAI.authentication") === "entraId") {
+      return new LLMAuthError(providerError.message, PROVIDER_NAME, providerError.status, error, ENTRA_ID_REMEDY)
+    }
+    return providerError
+  }
+
   async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
-    const client = this.getClient()
+    const client = await this.getClient()
     const config = vscode.workspace.getConfiguration("pyr-dev")
-    const deploymentName = config.get<string>("azureOpenAI.deploymentName", "gpt-4")
+    const deploymentName = options.model || config.get<string>("azureOpenAI.deploymentName", "gpt-4")
     const maxTokens = options.maxTokens || config.get<number>("maxTokens", 4000)
 
     try {
-      const response = await client.chat.completions.create({
-        model: deploymentName,
-        messages: messages.map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        })),
-        max_tokens: maxTokens,
-        temperature: options.temperature || 0.7,
-        top_p: options.topP || 1,
-        stream: false,
-      })
+      const response = await client.chat.completions.create(
+        {
+          model: deploymentName,
+          messages: toOpenAIMessages(messages),
+          max_tokens: maxTokens,
+          ...toOpenAISamplingParams(options),
+          tools: toOpenAITools(options.tools),
+          tool_choice: options.tools?.length ? toOpenAIToolChoice(options.toolChoice) : undefined,
+          response_format: toOpenAIResponseFormat(options.responseFormat),
+          stream: false,
+        },
+        { signal: options.signal },
+      )
 
       const choice = response.choices[0]
-      if (!choice?.message?.content) {
+      const toolCalls = fromOpenAIToolCalls(choice?.message?.tool_calls)
+      if (!choice?.message?.content && !toolCalls) {
         throw new Error("No response content received from Azure OpenAI")
       }
 
       return {
-        content: choice.message.content,
-        usage: response.usage
-          ? {
-              promptTokens: response.usage.prompt_tokens,
-              completionTokens: response.usage.completion_tokens,
-              totalTokens: response.usage.total_tokens,
-            }
-          : undefined,
+        content: choice.message.content || "",
+        model: response.model,
+        candidates:
+          response.choices.length > 1
+            ? response.choices.map((candidate) => candidate.message.content || "")
+            : undefined,
+        toolCalls,
+        finishReason: fromOpenAIFinishReason(choice.finish_reason),
+        usage: fromOpenAIUsage(response.usage),
       }
     } catch (error: any) {
-      console.error("Azure OpenAI API Error:", error)
-      throw new Error(`Azure OpenAI Error: ${error.message || "Unknown error"}`)
+      if (isAbortError(error, options.signal)) {
+        throw error
+      }
+      throw this.toProviderError(error)
     }
   }
 
-  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<string> {
-    const client = this.getClient()
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const client = await this.getClient()
     const config = vscode.workspace.getConfiguration("pyr-dev")
-    const deploymentName = config.get<string>("azureOpenAI.deploymentName", "gpt-4")
+    const deploymentName = options.model || config.get<string>("azureOpenAI.deploymentName", "gpt-4")
     const maxTokens = options.maxTokens || config.get<number>("maxTokens", 4000)
 
     try {
-      const stream = await client.chat.completions.create({
-        model: deploymentName,
-        messages: messages.map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        })),
-        max_tokens: maxTokens,
-        temperature: options.temperature || 0.7,
-        top_p: options.topP || 1,
-        stream: true,
-      })
+      const stream = await client.chat.completions.create(
+        {
+          model: deploymentName,
+          messages: toOpenAIMessages(messages),
+          max_tokens: maxTokens,
+          // Only the first choice is streamed
+          ...toOpenAISamplingParams({ ...options, n: undefined }),
+          tools: toOpenAITools(options.tools),
+          tool_choice: options.tools?.length ? toOpenAIToolChoice(options.toolChoice) : undefined,
+          stream: true,
+          stream_options: this.reportsStreamUsage() ? { include_usage: true } : undefined,
+        },
+        { signal: options.signal },
+      )
 
       for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content
-        if (content) {
-          yield content
-        }
+        yield* fromOpenAIStreamChunk(chunk)
       }
     } catch (error: any) {
-      console.error("Azure OpenAI Stream Error:", error)
-      throw new Error(`Azure OpenAI Stream Error: ${error.message || "Unknown error"}`)
+      if (isAbortError(error, options.signal)) {
+        throw error
+      }
+      throw this.toProviderError(error)
     }
   }
 
+  supportsEmbeddings(): boolean {
+    return !!vscode.workspace.getConfiguration("pyr-dev").get<string>("azureOpenAI.embeddingDeployment")
+  }
+
+  async embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const deploymentName = options.model || config.get<string>("azureOpenAI.embeddingDeployment")
+    if (!deploymentName) {
+      throw new LLMUnsupportedError(
+        'No Azure OpenAI embedding deployment is configured. Set "pyr-dev.azureOpenAI.embeddingDeployment".',
+        PROVIDER_NAME,
+      )
+    }
+
+    const client = await this.getClient()
+
+    return embedInBatches(texts, EMBEDDING_BATCH_SIZE, async (batch) => {
+      try {
+        const response = await client.embeddings.create(toOpenAIEmbeddingParams(deploymentName, batch, options), {
+          signal: options.signal,
+        })
+        return fromOpenAIEmbeddings(response)
+      } catch (error: any) {
+        if (isAbortError(error, options.signal)) {
+          throw error
+        }
+        throw this.toProviderError(error)
+      }
+    })
+  }
+
   isConfigured(): boolean {
     const config = vscode.workspace.getConfiguration("pyr-dev")
-    const apiKey = config.get<string>("azureOpenAI.apiKey")
     const endpoint = config.get<string>("azureOpenAI.endpoint")
-    return !!(apiKey && endpoint)
+    const credential =
+      config.get<string>("azureOpenAI.authentication", "apiKey") === "entraId"
+        ? getUserSetting("azureOpenAI.tokenCommand", "") || getUserSetting("azureOpenAI.tokenFile", "")
+        : SecretManager.getInstance().get("azureOpenAI.apiKey")
+    return !!(credential && endpoint)
   }
 
   getProviderName(): string {
-    return "Azure OpenAI"
+    return PROVIDER_NAME
+  }
+
+  getContextWindow(model?: string): number {
+    // Deployment names are user-chosen, but they usually carry the model name
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return getContextWindow(model || config.get<string>("azureOpenAI.deploymentName", "gpt-4"))
+  }
+
+  getConnectionInfo(): LLMConnectionInfo {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return {
+      endpoint: config.get<string>("azureOpenAI.endpoint"),
+      model: config.get<string>("azureOpenAI.deploymentName", "gpt-4"),
+      apiVersion: this.getApiVersion(),
+    }
   }
 }
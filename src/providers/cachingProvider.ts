@@ -0,0 +1,105 @@
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { normalizeMessages } from "./messageContent"
+import { embedWith } from "./embeddings"
+import { StreamCollector, toStreamEvents } from "./streamEvents"
+import { ResponseCache } from "../utils/responseCache"
+import { DEFAULT_CONTEXT_WINDOW } from "../utils/tokenBudget"
+
+// Serves repeated requests from the response cache. The key covers everything that changes the answer: the
+// provider, its non-secret settings (endpoint, deployment, model), the per-request model override, the
+// normalized messages and the sampling/tool options. Requests with `cache: false` always hit the provider.
+export class CachingProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly cache: ResponseCache,
+    private readonly getIdentity: () => Record<string, string>,
+  ) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    if (options.cache === false || !this.cache.isEnabled()) {
+      return this.inner.generateResponse(messages, options)
+    }
+
+    const key = this.createKey(messages, options)
+    const cached = await this.cache.get(key)
+    if (cached) {
+      return cached
+    }
+
+    const response = await this.inner.generateResponse(messages, options)
+    await this.cache.set(key, response)
+    return response
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    if (options.cache === false || !this.cache.isEnabled()) {
+      yield* this.inner.generateStreamResponse(messages, options)
+      return
+    }
+
+    const key = this.createKey(messages, options)
+    const cached = await this.cache.get(key)
+    if (cached) {
+      yield* toStreamEvents(cached)
+      return
+    }
+
+    // Only a stream that ran to completion is stored; a cancelled one would cache a truncated answer
+    const collected = new StreamCollector()
+    for await (const event of this.inner.generateStreamResponse(messages, options)) {
+      collected.add(event)
+      yield event
+    }
+    await this.cache.set(key, collected.toResponse())
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName()
+  }
+
+  getContextWindow(model?: string): number {
+    return this.inner.getContextWindow?.(model) ?? DEFAULT_CONTEXT_WINDOW
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.inner.supportsEmbeddings?.() ?? false
+  }
+
+  // Embeddings are not cached
+  embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    return embedWith(this.inner, texts, options)
+  }
+
+  private createKey(messages: LLMMessage[], options: LLMOptions): string {
+    return ResponseCache.createKey({
+      provider: this.getIdentity(),
+      model: options.model ?? null,
+      messages: normalizeMessages(messages),
+      options: {
+        maxTokens: options.maxTokens ?? null,
+        temperature: options.temperature ?? null,
+        topP: options.topP ?? null,
+        stop: options.stop ?? null,
+        seed: options.seed ?? null,
+        presencePenalty: options.presencePenalty ?? null,
+        frequencyPenalty: options.frequencyPenalty ?? null,
+        n: options.n ?? null,
+        tools: options.tools ?? null,
+        toolChoice: options.toolChoice ?? null,
+        responseFormat: options.responseFormat ?? null,
+      },
+    })
+  }
+}
@@ -0,0 +1,48 @@
+import type { LLMEmbeddingOptions, LLMEmbeddingResponse, LLMProvider, LLMUsage } from "./llmProvider"
+import { LLMUnsupportedError } from "./providerErrors"
+
+// Embeds the texts in consecutive batches of at most `batchSize` and joins the results in input order
+export async function embedInBatches(
+  texts: string[],
+  batchSize: number,
+  embedBatch: (batch: string[]) => Promise<LLMEmbeddingResponse>,
+): Promise<LLMEmbeddingResponse> {
+  const result: LLMEmbeddingResponse = { embeddings: [] }
+
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const batch = texts.slice(start, start + batchSize)
+    const response = await embedBatch(batch)
+    if (response.embeddings.length !== batch.length) {
+      throw new Error(`Expected ${batch.length} embeddings, the server returned ${response.embeddings.length}`)
+    }
+
+    result.embeddings.push(...response.embeddings)
+    result.model ??= response.model
+    if (response.usage) {
+      result.usage = addUsage(result.usage, response.usage)
+    }
+  }
+
+  return result
+}
+
+// For wrappers: forwards to the wrapped provider, or fails cleanly when it has no embedding API at all
+export function embedWith(
+  provider: LLMProvider,
+  texts: string[],
+  options: LLMEmbeddingOptions,
+): Promise<LLMEmbeddingResponse> {
+  if (!provider.embed) {
+    const name = provider.getProviderName()
+    return Promise.reject(new LLMUnsupportedError(`${name} does not support embeddings`, name))
+  }
+  return provider.embed(texts, options)
+}
+
+function addUsage(total: LLMUsage | undefined, usage: LLMUsage): LLMUsage {
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+  }
+}
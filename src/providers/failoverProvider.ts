@@ -0,0 +1,120 @@
+import * as vscode from "vscode"
+import type { LLMProvider, LLMMessage, LLMResponse, LLMOptions, LLMStreamEvent } from "./llmProvider"
+import { LLMProviderError } from "./providerErrors"
+import { DEFAULT_CONTEXT_WINDOW } from "../utils/tokenBudget"
+import type { ProviderLog } from "../utils/providerLog"
+
+export interface FailoverCandidate {
+  id: string
+  provider: LLMProvider
+}
+
+export interface ProviderAnswerEvent {
+  providerId: string
+  primaryProviderId: string
+  failedOver: boolean
+}
+
+// Sends each request to the first provider in the priority chain and transparently moves on to the
+// next one when a provider is unavailable (5xx, timeouts, exhausted rate-limit retries).
+export class FailoverProvider implements LLMProvider {
+  private readonly answerEmitter = new vscode.EventEmitter<ProviderAnswerEvent>()
+  readonly onDidAnswer = this.answerEmitter.event
+  private lastProviderName: string | undefined
+
+  constructor(
+    private readonly resolveChain: () => FailoverCandidate[],
+    private readonly log?: ProviderLog,
+  ) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const chain = this.getChain()
+    let lastError: unknown
+
+    for (const candidate of chain) {
+      try {
+        const response = await candidate.provider.generateResponse(messages, options)
+        this.reportAnswer(candidate, chain)
+        return response
+      } catch (error) {
+        if (!this.shouldFailOver(error)) {
+          throw error
+        }
+        lastError = error
+        this.log?.logError(`${candidate.provider.getProviderName()} unavailable, failing over`, error)
+      }
+    }
+
+    throw lastError
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const chain = this.getChain()
+    let lastError: unknown
+
+    for (const candidate of chain) {
+      let yielded = false
+
+      try {
+        for await (const event of candidate.provider.generateStreamResponse(messages, options)) {
+          if (!yielded) {
+            yielded = true
+            this.reportAnswer(candidate, chain)
+          }
+          yield event
+        }
+        return
+      } catch (error) {
+        // A partially streamed answer cannot be continued by a different model
+        if (yielded || !this.shouldFailOver(error)) {
+          throw error
+        }
+        lastError = error
+        this.log?.logError(`${candidate.provider.getProviderName()} unavailable, failing over`, error)
+      }
+    }
+
+    throw lastError
+  }
+
+  isConfigured(): boolean {
+    return this.resolveChain().length > 0
+  }
+
+  getProviderName(): string {
+    return this.lastProviderName ?? this.resolveChain()[0]?.provider.getProviderName() ?? "No provider"
+  }
+
+  // Any provider in the chain may end up answering, so the request has to fit the smallest window
+  getContextWindow(): number {
+    const windows = this.resolveChain().map(
+      (candidate) => candidate.provider.getContextWindow?.() ?? DEFAULT_CONTEXT_WINDOW,
+    )
+    return windows.length > 0 ? Math.min(...windows) : DEFAULT_CONTEXT_WINDOW
+  }
+
+  dispose(): void {
+    this.answerEmitter.dispose()
+  }
+
+  private getChain(): FailoverCandidate[] {
+    const chain = this.resolveChain()
+    if (chain.length === 0) {
+      throw new Error('No LLM provider is properly configured. Run "Pyr Dev: Set API Key" or check your settings.')
+    }
+    return chain
+  }
+
+  private shouldFailOver(error: unknown): boolean {
+    return error instanceof LLMProviderError && error.isRetryable
+  }
+
+  private reportAnswer(candidate: FailoverCandidate, chain: FailoverCandidate[]) {
+    this.lastProviderName = candidate.provider.getProviderName()
+    this.answerEmitter.fire({
+      providerId: candidate.id,
+      primaryProviderId: chain[0].id,
+      failedOver: candidate.id !== chain[0].id,
+    })
+  }
+}
@@ -1,142 +1,411 @@
 import * as vscode from "vscode"
-import { GoogleGenerativeAI, type GenerativeModel, type ChatSession } from "@google/generative-ai"
-import type { LLMProvider, LLMMessage, LLMResponse, LLMOptions } from "./llmProvider"
+import {
+  FinishReason,
+  FunctionCallingMode,
+  GoogleGenerativeAI,
+  TaskType,
+  type Content,
+  type EmbedContentRequest,
+  type GenerateContentRequest,
+  type GenerateContentResponse,
+  type GenerationConfig,
+  type GenerativeModel,
+  type Part,
+  type RequestOptions,
+  type Schema,
+  type Tool,
+  type ToolConfig,
+} from "@google/generative-ai"
+import type { Dispatcher } from "undici"
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMConnectionInfo,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMFinishReason,
+  LLMStreamEvent,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMToolDefinition,
+  LLMUsage,
+} from "./llmProvider"
+import { isAbortError } from "../utils/cancellation"
+import { getContextWindow } from "../utils/tokenBudget"
+import { SecretManager } from "../utils/secretManager"
+import { createDispatcher, getTransportSettings, runWithDispatcher } from "../utils/transport"
+import { classifyProviderError } from "./providerErrors"
+import { getMessageText } from "./messageContent"
+import { embedInBatches } from "./embeddings"
+
+const ENDPOINT = "https://generativelanguage.googleapis.com"
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-004"
+// The most requests batchEmbedContents accepts at once
+const EMBEDDING_BATCH_SIZE = 100
 
 export class GeminiProvider implements LLMProvider {
   private client: GoogleGenerativeAI | null = null
-  private model: GenerativeModel | null = null
+  private models: Map<string, GenerativeModel> = new Map()
+  private requestOptions: RequestOptions = {}
+  // The SDK only uses the global fetch, so proxy and CA settings are applied around each request instead
+  private dispatcher: Dispatcher | undefined
 
   private getClient(): GoogleGenerativeAI {
     if (!this.client) {
-      const config = vscode.workspace.getConfiguration("pyr-dev")
-      const apiKey = config.get<string>("gemini.apiKey")
+      const apiKey = SecretManager.getInstance().get("gemini.apiKey")
 
       if (!apiKey) {
         throw new Error("Google Gemini API key must be configured")
       }
 
+      const transport = getTransportSettings()
+      this.dispatcher = createDispatcher(ENDPOINT, transport)
+      this.requestOptions = {
+        timeout: transport.timeoutMs,
+        customHeaders: Object.keys(transport.headers).length ? transport.headers : undefined,
+      }
       this.client = new GoogleGenerativeAI(apiKey)
     }
 
     return this.client
   }
 
-  private getModel(): GenerativeModel {
-    if (!this.model) {
-      const client = this.getClient()
-      const config = vscode.workspace.getConfiguration("pyr-dev")
-      const modelName = config.get<string>("gemini.model", "gemini-pro")
+  private getModel(modelOverride?: string): GenerativeModel {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const modelName = modelOverride || config.get<string>("gemini.model", "gemini-pro")
 
-      this.model = client.getGenerativeModel({ model: modelName })
+    let model = this.models.get(modelName)
+    if (!model) {
+      model = this.getClient().getGenerativeModel({ model: modelName }, this.requestOptions)
+      this.models.set(modelName, model)
     }
 
-    return this.model
+    return model
   }
 
-  private convertMessagesToGeminiFormat(messages: LLMMessage[]): { history: any[]; message: string } {
-    // Gemini expects alternating user/model messages
-    const history: any[] = []
-    let currentMessage = ""
+  private convertMessagesToGeminiFormat(messages: LLMMessage[]): Content[] {
+    // Gemini expects alternating user/model turns; tool results travel back as function responses. The system
+    // prompt goes separately, as the request's systemInstruction.
+    const contents: Content[] = []
+    const toolNames = new Map<string, string>()
 
-    // Find system message if exists
-    const systemMessage = messages.find((msg) => msg.role === "system")
-    const conversationMessages = messages.filter((msg) => msg.role !== "system")
-
-    // Convert conversation messages
-    for (let i = 0; i < conversationMessages.length - 1; i++) {
-      const msg = conversationMessages[i]
-      if (msg.role === "user") {
-        history.push({
-          role: "user",
-          parts: [{ text: msg.content }],
-        })
-      } else if (msg.role === "assistant") {
-        history.push({
-          role: "model",
-          parts: [{ text: msg.content }],
-        })
+    for (const msg of messages) {
+      if (msg.role === "system") {
+        continue
+      }
+
+      if (msg.role === "assistant") {
+        const text = getMessageText(msg.content)
+        const parts: Part[] = text ? [{ text }] : []
+        for (const call of msg.toolCalls || []) {
+          toolNames.set(call.id, call.name)
+          parts.push({ functionCall: { name: call.name, args: call.arguments } })
+        }
+        contents.push({ role: "model", parts })
+      } else if (msg.role === "tool") {
+        const name = msg.name || (msg.toolCallId && toolNames.get(msg.toolCallId)) || "unknown"
+        const part: Part = { functionResponse: { name, response: { content: getMessageText(msg.content) } } }
+
+        // The answers to one turn's parallel calls must arrive together in a single function turn
+        const previous = contents[contents.length - 1]
+        if (previous?.role === "function") {
+          previous.parts.push(part)
+        } else {
+          contents.push({ role: "function", parts: [part] })
+        }
+      } else {
+        contents.push({ role: "user", parts: this.convertContentParts(msg.content) })
       }
     }
 
-    // Last message becomes the current message
-    const lastMessage = conversationMessages[conversationMessages.length - 1]
-    if (lastMessage) {
-      currentMessage = systemMessage ? `${systemMessage.content}\n\nUser: ${lastMessage.content}` : lastMessage.content
+    return contents
+  }
+
+  // Images go inline as base64 data, which Gemini accepts up to about 20 MB per request
+  private convertContentParts(content: LLMMessage["content"]): Part[] {
+    if (typeof content === "string") {
+      return [{ text: content }]
+    }
+
+    return content.map((part): Part =>
+      part.type === "text" ? { text: part.text } : { inlineData: { mimeType: part.mimeType, data: part.data } },
+    )
+  }
+
+  private buildRequest(messages: LLMMessage[], options: LLMOptions): GenerateContentRequest {
+    const systemMessage = messages.find((msg) => msg.role === "system")
+
+    return {
+      contents: this.convertMessagesToGeminiFormat(messages),
+      // Per request rather than on the model, which is cached per model name and shared by all prompts
+      systemInstruction: systemMessage ? getMessageText(systemMessage.content) : undefined,
+      tools: this.convertTools(options.tools),
+      toolConfig: options.tools?.length ? this.convertToolChoice(options.toolChoice) : undefined,
+      generationConfig: this.buildGenerationConfig(options),
+    }
+  }
+
+  private buildGenerationConfig(options: LLMOptions): GenerationConfig {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const generationConfig: GenerationConfig & { seed?: number } = {
+      maxOutputTokens: options.maxTokens || config.get<number>("maxTokens", 4000),
+      temperature: options.temperature,
+      topP: options.topP,
+      stopSequences: options.stop?.length ? options.stop : undefined,
+      presencePenalty: options.presencePenalty,
+      frequencyPenalty: options.frequencyPenalty,
+      candidateCount: options.n,
+      // The API accepts a seed; the SDK's types just lack it
+      seed: options.seed,
+    }
+
+    if (options.responseFormat) {
+      generationConfig.responseMimeType = "application/json"
+      generationConfig.responseSchema = toGeminiSchema(options.responseFormat.schema)
+    }
+
+    return generationConfig
+  }
+
+  private convertTools(tools?: LLMToolDefinition[]): Tool[] | undefined {
+    if (!tools?.length) {
+      return undefined
+    }
+
+    return [
+      {
+        functionDeclarations: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: toGeminiSchema(tool.parameters) as any,
+        })),
+      },
+    ]
+  }
+
+  private convertToolChoice(toolChoice?: LLMToolChoice): ToolConfig | undefined {
+    if (!toolChoice) {
+      return undefined
+    }
+
+    if (toolChoice === "auto") {
+      return { functionCallingConfig: { mode: FunctionCallingMode.AUTO } }
+    }
+
+    if (toolChoice === "none") {
+      return { functionCallingConfig: { mode: FunctionCallingMode.NONE } }
     }
 
-    return { history, message: currentMessage }
+    return { functionCallingConfig: { mode: FunctionCallingMode.ANY, allowedFunctionNames: [toolChoice.name] } }
   }
 
   async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
-    const model = this.getModel()
+    const model = this.getModel(options.model)
 
     try {
-      const { history, message } = this.convertMessagesToGeminiFormat(messages)
-
-      let result
-      if (history.length > 0) {
-        // Use chat session for conversation
-        const chat: ChatSession = model.startChat({ history })
-        result = await chat.sendMessage(message)
-      } else {
-        // Single message generation
-        result = await model.generateContent(message)
-      }
+      const result = await runWithDispatcher(this.dispatcher, () =>
+        model.generateContent(this.buildRequest(messages, options), { signal: options.signal }),
+      )
 
       const response = result.response
-      const content = response.text()
+      const toolCalls: LLMToolCall[] | undefined = response.functionCalls()?.map((call, index) => ({
+        // Gemini does not assign ids to function calls, so synthesize stable ones per response
+        id: `call_${index}`,
+        name: call.name,
+        arguments: call.args as Record<string, any>,
+      }))
+      const content = toolCalls?.length ? "" : response.text()
 
-      if (!content) {
+      if (!content && !toolCalls?.length) {
         throw new Error("No response content received from Gemini")
       }
 
+      const candidates = response.candidates ?? []
+
       return {
         content: content,
-        usage: {
-          promptTokens: response.usageMetadata?.promptTokenCount || 0,
-          completionTokens: response.usageMetadata?.candidatesTokenCount || 0,
-          totalTokens: response.usageMetadata?.totalTokenCount || 0,
-        },
+        candidates:
+          candidates.length > 1
+            ? candidates.map((candidate) => (candidate.content?.parts ?? []).map((part) => part.text ?? "").join(""))
+            : undefined,
+        toolCalls: toolCalls?.length ? toolCalls : undefined,
+        finishReason: toolCalls?.length ? "toolCalls" : fromGeminiFinishReason(candidates[0]?.finishReason),
+        usage: fromGeminiUsage(response.usageMetadata),
       }
     } catch (error: any) {
-      console.error("Gemini API Error:", error)
-      throw new Error(`Gemini Error: ${error.message || "Unknown error"}`)
+      if (isAbortError(error, options.signal)) {
+        throw error
+      }
+      throw classifyProviderError(error, this.getProviderName())
     }
   }
 
-  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<string> {
-    const model = this.getModel()
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const model = this.getModel(options.model)
 
     try {
-      const { history, message } = this.convertMessagesToGeminiFormat(messages)
+      // Streams carry one candidate and plain text
+      const request = this.buildRequest(messages, { ...options, n: undefined, responseFormat: undefined })
+      const result = await runWithDispatcher(this.dispatcher, () =>
+        model.generateContentStream(request, { signal: options.signal }),
+      )
 
-      let result
-      if (history.length > 0) {
-        const chat: ChatSession = model.startChat({ history })
-        result = await chat.sendMessageStream(message)
-      } else {
-        result = await model.generateContentStream(message)
-      }
+      let toolCallIndex = 0
+      let finishReason: LLMFinishReason | undefined
+      let usage: GenerateContentResponse["usageMetadata"]
 
       for await (const chunk of result.stream) {
-        const chunkText = chunk.text()
-        if (chunkText) {
-          yield chunkText
+        const candidate = chunk.candidates?.[0]
+
+        for (const part of candidate?.content?.parts ?? []) {
+          if (part.text) {
+            yield { type: "text", text: part.text }
+          } else if (part.functionCall) {
+            // Gemini sends each call whole, so one delta carries all of it
+            yield {
+              type: "toolCall",
+              index: toolCallIndex,
+              id: `call_${toolCallIndex++}`,
+              name: part.functionCall.name,
+              argumentsDelta: JSON.stringify(part.functionCall.args ?? {}),
+            }
+          }
+        }
+
+        finishReason = fromGeminiFinishReason(candidate?.finishReason) ?? finishReason
+        if (chunk.promptFeedback?.blockReason) {
+          finishReason = "contentFilter"
         }
+        // Every chunk reports the running totals
+        usage = chunk.usageMetadata ?? usage
+      }
+
+      // Gemini reports STOP after function calls; the other providers say the turn ended for tool calls
+      const reason = finishReason ?? "stop"
+      yield { type: "finish", reason: toolCallIndex > 0 && reason === "stop" ? "toolCalls" : reason }
+      if (usage) {
+        yield { type: "usage", usage: fromGeminiUsage(usage) }
       }
     } catch (error: any) {
-      console.error("Gemini Stream Error:", error)
-      throw new Error(`Gemini Stream Error: ${error.message || "Unknown error"}`)
+      if (isAbortError(error, options.signal)) {
+        throw error
+      }
+      throw classifyProviderError(error, this.getProviderName())
     }
   }
 
-  isConfigured(): boolean {
+  // Any Gemini key can embed, with text-embedding-004 unless another embedding model is set
+  supportsEmbeddings(): boolean {
+    return true
+  }
+
+  async embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
     const config = vscode.workspace.getConfiguration("pyr-dev")
-    const apiKey = config.get<string>("gemini.apiKey")
-    return !!apiKey
+    const modelName = options.model || config.get<string>("gemini.embeddingModel") || DEFAULT_EMBEDDING_MODEL
+    const model = this.getModel(modelName)
+    const taskType =
+      options.purpose === "query"
+        ? TaskType.RETRIEVAL_QUERY
+        : options.purpose === "document"
+          ? TaskType.RETRIEVAL_DOCUMENT
+          : undefined
+
+    return embedInBatches(texts, EMBEDDING_BATCH_SIZE, async (batch) => {
+      // The API accepts outputDimensionality; the SDK's types just lack it
+      const requests = batch.map((text): EmbedContentRequest & { outputDimensionality?: number } => ({
+        content: { role: "user", parts: [{ text }] },
+        taskType,
+        outputDimensionality: options.dimensions,
+      }))
+
+      try {
+        const response = await runWithDispatcher(this.dispatcher, () =>
+          model.batchEmbedContents({ requests }, { signal: options.signal }),
+        )
+        // Gemini does not report token usage for embeddings
+        return { embeddings: response.embeddings.map((embedding) => embedding.values), model: modelName }
+      } catch (error: any) {
+        if (isAbortError(error, options.signal)) {
+          throw error
+        }
+        throw classifyProviderError(error, this.getProviderName())
+      }
+    })
+  }
+
+  isConfigured(): boolean {
+    return !!SecretManager.getInstance().get("gemini.apiKey")
   }
 
   getProviderName(): string {
     return "Google Gemini"
   }
+
+  getContextWindow(model?: string): number {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return getContextWindow(model || config.get<string>("gemini.model", "gemini-pro"))
+  }
+
+  getConnectionInfo(): LLMConnectionInfo {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    // The SDK's default base URL and API version, which the request options leave alone
+    return {
+      endpoint: ENDPOINT,
+      model: config.get<string>("gemini.model", "gemini-pro"),
+      apiVersion: "v1beta",
+    }
+  }
+}
+
+// Gemini accepts an OpenAPI subset of JSON schema and rejects unknown keywords such as additionalProperties
+const GEMINI_SCHEMA_KEYS = ["type", "format", "description", "nullable", "enum", "items", "properties", "required"]
+
+function toGeminiSchema(schema: Record<string, any>): Schema {
+  const result: Record<string, any> = {}
+
+  for (const key of GEMINI_SCHEMA_KEYS) {
+    if (schema[key] === undefined) continue
+
+    if (key === "items") {
+      result.items = toGeminiSchema(schema.items)
+    } else if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(schema.properties as Record<string, any>).map(([name, value]) => [name, toGeminiSchema(value)]),
+      )
+    } else {
+      result[key] = schema[key]
+    }
+  }
+
+  return result as Schema
+}
+
+function fromGeminiFinishReason(reason?: FinishReason): LLMFinishReason | undefined {
+  switch (reason) {
+    case undefined:
+    case FinishReason.FINISH_REASON_UNSPECIFIED:
+      return undefined
+    case FinishReason.STOP:
+      return "stop"
+    case FinishReason.MAX_TOKENS:
+      return "length"
+    case FinishReason.SAFETY:
+    case FinishReason.RECITATION:
+    case FinishReason.BLOCKLIST:
+    case FinishReason.PROHIBITED_CONTENT:
+    case FinishReason.SPII:
+      return "contentFilter"
+    default:
+      return "other"
+  }
+}
+
+function fromGeminiUsage(usage: GenerateContentResponse["usageMetadata"]): LLMUsage {
+  return {
+    promptTokens: usage?.promptTokenCount || 0,
+    completionTokens: usage?.candidatesTokenCount || 0,
+    totalTokens: usage?.totalTokenCount || 0,
+  }
 }
@@ -1,98 +1,395 @@
 import * as vscode from "vscode"
-import { AzureOpenAIProvider } from "./azureOpenAIProvider"
-import { GeminiProvider } from "./geminiProvider"
+import { ProviderRegistry } from "./providerRegistry"
+import { ResilientProvider } from "./resilientProvider"
+import { FailoverProvider, type FailoverCandidate } from "./failoverProvider"
+import { CachingProvider } from "./cachingProvider"
+import { MeteredProvider } from "./meteredProvider"
+import { StructuredOutputProvider } from "./structuredOutputProvider"
+import { RecordingProvider } from "./recordingProvider"
+import { LoggingProvider } from "./loggingProvider"
+import { ScheduledProvider } from "./scheduledProvider"
+import { diagnoseProvider, type ProviderDiagnostics } from "./providerDiagnostics"
+import type { ResponseCache } from "../utils/responseCache"
+import type { UsageLedger } from "../utils/usageLedger"
+import type { ProviderLog } from "../utils/providerLog"
+import { FixtureStore } from "../utils/fixtureStore"
+import { RequestScheduler } from "../utils/requestScheduler"
 
 export interface LLMResponse {
   content: string
-  usage?: {
-    promptTokens: number
-    completionTokens: number
-    totalTokens: number
-  }
+  // The validated JSON value, set for requests made with a responseFormat
+  parsed?: any
+  // The model that answered as reported by the server, e.g. a dated snapshot behind a deployment or alias
+  model?: string
+  // Every candidate's text when more than one was requested with `n`; `content` is the first
+  candidates?: string[]
+  toolCalls?: LLMToolCall[]
+  finishReason?: LLMFinishReason
+  usage?: LLMUsage
+}
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+// "length" means the answer was cut off at maxTokens, "contentFilter" that a safety filter stopped it
+export type LLMFinishReason = "stop" | "length" | "toolCalls" | "contentFilter" | "other"
+
+// What streams yield. Text and tool-call deltas arrive in order; finish and usage come last, and usage only from
+// servers that report it for streams.
+export type LLMStreamEvent = LLMTextDelta | LLMToolCallDelta | LLMFinishEvent | LLMUsageEvent
+
+export interface LLMTextDelta {
+  type: "text"
+  text: string
+}
+
+// Deltas of one call share an index; id and name come with the first, the JSON arguments in pieces
+export interface LLMToolCallDelta {
+  type: "toolCall"
+  index: number
+  id?: string
+  name?: string
+  argumentsDelta: string
+}
+
+export interface LLMFinishEvent {
+  type: "finish"
+  reason: LLMFinishReason
+}
+
+export interface LLMUsageEvent {
+  type: "usage"
+  usage: LLMUsage
 }
 
 export interface LLMMessage {
-  role: "system" | "user" | "assistant"
-  content: string
+  role: "system" | "user" | "assistant" | "tool"
+  // Plain text, or text and image parts for multimodal user messages
+  content: string | LLMContentPart[]
+  // Set on assistant messages that requested tool calls
+  toolCalls?: LLMToolCall[]
+  // Set on tool messages to point back at the call they answer
+  toolCallId?: string
+  name?: string
+}
+
+export type LLMContentPart = LLMTextPart | LLMImagePart
+
+export interface LLMTextPart {
+  type: "text"
+  text: string
+}
+
+export interface LLMImagePart {
+  type: "image"
+  // e.g. "image/png"
+  mimeType: string
+  // Base64-encoded image bytes
+  data: string
+  // File name shown in the chat and in exports
+  name?: string
+}
+
+export interface LLMToolDefinition {
+  name: string
+  description: string
+  // JSON schema describing the tool arguments
+  parameters: Record<string, any>
+}
+
+export interface LLMToolCall {
+  id: string
+  name: string
+  arguments: Record<string, any>
 }
 
+export type LLMToolChoice = "auto" | "none" | { name: string }
+
 export interface LLMProvider {
   generateResponse(messages: LLMMessage[], options?: LLMOptions): Promise<LLMResponse>
-  generateStreamResponse(messages: LLMMessage[], options?: LLMOptions): AsyncIterable<string>
+  generateStreamResponse(messages: LLMMessage[], options?: LLMOptions): AsyncIterable<LLMStreamEvent>
   isConfigured(): boolean
   getProviderName(): string
+  // Input + output tokens the model accepts; callers fall back to a conservative default when absent
+  getContextWindow?(model?: string): number
+  // Where requests go, for diagnostics
+  getConnectionInfo?(): LLMConnectionInfo
+  // Whether embed() can be called, i.e. the provider has an embedding API and an embedding model is configured
+  supportsEmbeddings?(): boolean
+  // One vector per text, in input order; large inputs are split into batches the server accepts
+  embed?(texts: string[], options?: LLMEmbeddingOptions): Promise<LLMEmbeddingResponse>
+}
+
+export interface LLMEmbeddingOptions {
+  // Overrides the configured embedding model (Azure: embedding deployment name)
+  model?: string
+  // Shortens the vectors, for models that support it (OpenAI text-embedding-3, Gemini text-embedding-004)
+  dimensions?: number
+  // Gemini embeds search queries and the documents searched differently; other providers ignore it
+  purpose?: "query" | "document"
+  capability?: LLMCapability
+  priority?: LLMRequestPriority
+  signal?: AbortSignal
+}
+
+export interface LLMEmbeddingResponse {
+  embeddings: number[][]
+  model?: string
+  // Embeddings only have prompt tokens
+  usage?: LLMUsage
+}
+
+export interface LLMConnectionInfo {
+  endpoint?: string
+  // Configured model (Azure: deployment name)
+  model?: string
+  apiVersion?: string
+}
+
+// Capabilities that can be pinned to their own provider and model through "pyr-dev.routing"
+export type LLMCapability =
+  "inlineCompletion" | "hover" | "analyze" | "fix" | "generate" | "explain" | "chain" | "chat" | "refactor" | "embed"
+
+// Highest first: what the user is waiting on, then completions and hovers, then work nobody waits on (embeddings)
+export type LLMRequestPriority = "interactive" | "completion" | "background"
+
+export interface LLMRouteConfig {
+  provider?: string
+  model?: string
 }
 
-export interface LLMOptions {
+export interface LLMRoute {
+  provider: LLMProvider
+  // Replaces the provider's configured model or deployment for requests on this route
+  model?: string
+}
+
+// Asks for a JSON reply matching `schema`. The reply is validated on receipt and the model is re-prompted with the
+// validation errors when it does not match. Only generateResponse supports it; streams ignore it.
+export interface LLMResponseFormat {
+  type: "json_schema"
+  // Letters, digits, "_" and "-" only; OpenAI sends it along with the schema
+  name: string
+  schema: Record<string, any>
+}
+
+// What a prompt template may prefer; options passed with the request override them
+export interface LLMSamplingOptions {
   maxTokens?: number
   temperature?: number
   topP?: number
+  // Generation ends before the first of these strings
+  stop?: string[]
+  // Best-effort determinism where the provider supports it
+  seed?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+  // Number of candidates to generate; streams always produce one
+  n?: number
+}
+
+export interface LLMOptions extends LLMSamplingOptions {
   stream?: boolean
+  tools?: LLMToolDefinition[]
+  toolChoice?: LLMToolChoice
+  responseFormat?: LLMResponseFormat
+  // Overrides the configured model (Azure: deployment name) for this request
+  model?: string
+  // Set to false to bypass the response cache for this request
+  cache?: boolean
+  // The agent capability that issued the request, for usage accounting and scheduling
+  capability?: LLMCapability
+  // Queue position when the provider is at its concurrency limit; derived from the capability when unset
+  priority?: LLMRequestPriority
+  // A newer request with the same key drops this one while it still waits in the queue, e.g. one key per document
+  // for inline completions, whose older requests are stale as soon as the user types on
+  supersedeKey?: string
+  // Aborts the underlying HTTP request when signalled
+  signal?: AbortSignal
 }
 
 export class LLMProviderManager {
-  private azureProvider: AzureOpenAIProvider
-  private geminiProvider: GeminiProvider
+  private registry: ProviderRegistry
+  private wrappedProviders: Map<string, LLMProvider> = new Map()
+  private failoverProvider: FailoverProvider | undefined
+  private readonly fixtureStore = new FixtureStore()
+  private readonly scheduler = new RequestScheduler()
 
-  constructor() {
-    this.azureProvider = new AzureOpenAIProvider()
-    this.geminiProvider = new GeminiProvider()
+  constructor(
+    private readonly responseCache?: ResponseCache,
+    private readonly usageLedger?: UsageLedger,
+    private readonly providerLog?: ProviderLog,
+  ) {
+    this.registry = ProviderRegistry.getInstance()
   }
 
-  getActiveProvider(): LLMProvider {
+  getActiveProviderId(): string {
     const config = vscode.workspace.getConfiguration("pyr-dev")
     const defaultProvider = config.get<string>("defaultProvider", "azure")
 
-    switch (defaultProvider) {
-      case "gemini":
-        if (this.geminiProvider.isConfigured()) {
-          return this.geminiProvider
-        }
-        // Fallback to Azure if Gemini not configured
-        if (this.azureProvider.isConfigured()) {
-          return this.azureProvider
-        }
-        break
-      case "azure":
-      default:
-        if (this.azureProvider.isConfigured()) {
-          return this.azureProvider
-        }
-        // Fallback to Gemini if Azure not configured
-        if (this.geminiProvider.isConfigured()) {
-          return this.geminiProvider
-        }
-        break
+    // Try the default provider first, then fall back to the other online providers in registration order
+    const fallbackOrder = [defaultProvider, ...this.getOnlineIds().filter((id) => id !== defaultProvider)]
+
+    const activeId = fallbackOrder.find((id) => this.registry.has(id) && this.registry.isConfigured(id))
+    if (!activeId) {
+      throw new Error('No LLM provider is properly configured. Run "Pyr Dev: Set API Key" or check your settings.')
     }
 
-    throw new Error("No LLM provider is properly configured. Please check your API keys in settings.")
+    return activeId
   }
 
-  getAllProviders(): LLMProvider[] {
-    return [this.azureProvider, this.geminiProvider]
+  // Resolves the provider chain on every request, so failover order and configuration changes apply immediately
+  getActiveProvider(): FailoverProvider {
+    if (!this.failoverProvider) {
+      this.failoverProvider = new FailoverProvider(() => this.getFailoverChain(), this.providerLog)
+    }
+    return this.failoverProvider
   }
 
-  getConfiguredProviders(): LLMProvider[] {
-    return this.getAllProviders().filter((provider) => provider.isConfigured())
+  getFailoverChain(): FailoverCandidate[] {
+    let primaryId: string
+    try {
+      primaryId = this.getActiveProviderId()
+    } catch {
+      return []
+    }
+
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    if (!config.get<boolean>("failover.enabled", true)) {
+      return [{ id: primaryId, provider: this.getProvider(primaryId) }]
+    }
+
+    // User-defined order wins; without one, every other configured provider is a fallback in registry order
+    const order = config.get<string[]>("failover.order", [])
+    const fallbackIds = order.length > 0 ? order : this.getOnlineIds()
+    const chainIds = [primaryId, ...fallbackIds].filter(
+      (id, index, ids) => ids.indexOf(id) === index && this.registry.has(id) && this.registry.isConfigured(id),
+    )
+
+    return chainIds.map((id) => ({ id, provider: this.getProvider(id) }))
   }
 
-  async testProvider(providerName: string): Promise<boolean> {
-    try {
-      const provider = providerName === "azure" ? this.azureProvider : this.geminiProvider
+  // A routed capability goes to exactly one provider: its model name means nothing to the other providers in the
+  // failover chain. Unrouted capabilities return undefined and keep using the active provider with failover.
+  getRoute(capability: LLMCapability): LLMRoute | undefined {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const route = config.get<Record<string, LLMRouteConfig>>("routing", {})[capability]
+    if (!route?.provider && !route?.model) {
+      return undefined
+    }
 
-      if (!provider.isConfigured()) {
-        return false
+    let providerId = route.provider
+    if (!providerId) {
+      try {
+        providerId = this.getActiveProviderId()
+      } catch {
+        return undefined
       }
+    }
 
-      const response = await provider.generateResponse(
-        [{ role: "user", content: "Hello, this is a test message. Please respond with 'Test successful'." }],
-        { maxTokens: 50 },
+    if (!this.registry.has(providerId) || !this.registry.isConfigured(providerId)) {
+      this.providerLog?.logWarning(
+        `Routing for "${capability}" uses unavailable provider "${providerId}", using the default provider`,
       )
+      return undefined
+    }
 
-      return response.content.toLowerCase().includes("test successful")
-    } catch (error) {
-      console.error(`Provider test failed for ${providerName}:`, error)
-      return false
+    return { provider: this.getProvider(providerId), model: route.model || undefined }
+  }
+
+  // Every configured provider that talks to a real model, each on its own: a comparison must not fail over
+  getComparisonCandidates(): FailoverCandidate[] {
+    return this.getOnlineIds()
+      .filter((id) => this.registry.isConfigured(id))
+      .map((id) => ({ id, provider: this.getProvider(id) }))
+  }
+
+  // Registry providers wrapped, from the inside out, with call logging (so every retry shows up in the log), the
+  // shared retry/backoff layer, the request scheduler (a request keeps its slot while it backs off), usage metering,
+  // JSON schema validation, the response cache (so cache hits are neither retried, queued nor billed, and only
+  // replies that passed validation are cached) and fixture recording (outermost, so cache hits are recorded too)
+  getProvider(id: string): LLMProvider {
+    let provider = this.wrappedProviders.get(id)
+    if (!provider) {
+      provider = this.registry.getProvider(id)
+      if (this.providerLog) {
+        provider = new LoggingProvider(provider, this.providerLog, id, () => this.getModelName(id))
+      }
+      provider = new ResilientProvider(provider, this.providerLog)
+      provider = new ScheduledProvider(provider, this.scheduler, id)
+      if (this.usageLedger) {
+        provider = new MeteredProvider(provider, this.usageLedger, id, () => this.getModelName(id))
+      }
+      provider = new StructuredOutputProvider(provider)
+      if (this.responseCache) {
+        provider = new CachingProvider(provider, this.responseCache, () => this.getCacheIdentity(id))
+      }
+      if (!this.registry.get(id)?.offline) {
+        provider = new RecordingProvider(provider, this.fixtureStore, id, this.providerLog)
+      }
+      this.wrappedProviders.set(id, provider)
+    }
+    return provider
+  }
+
+  // The routed provider, or the default one without failover: vectors from different models cannot be compared.
+  // Undefined when that provider cannot embed.
+  getEmbeddingRoute(): LLMRoute | undefined {
+    let route = this.getRoute("embed")
+    if (!route) {
+      try {
+        route = { provider: this.getProvider(this.getActiveProviderId()) }
+      } catch {
+        return undefined
+      }
     }
+
+    return route.provider.supportsEmbeddings?.() ? route : undefined
+  }
+
+  reloadProviders(ids: string[] = this.registry.getIds()): void {
+    for (const id of ids) {
+      this.registry.invalidate(id)
+      this.wrappedProviders.delete(id)
+    }
+  }
+
+  getModelName(id: string): string {
+    const modelKey = this.registry.get(id)?.modelKey
+    return modelKey ? this.registry.getSettings(id)[modelKey] : ""
+  }
+
+  private getOnlineIds(): string[] {
+    return this.registry.getIds().filter((id) => !this.registry.get(id)?.offline)
+  }
+
+  // Everything about a provider that changes its answers; API keys are left out so rotating a key keeps the cache
+  private getCacheIdentity(id: string): Record<string, string> {
+    const settings = this.registry.getSettings(id)
+    const identity: Record<string, string> = { provider: id }
+
+    for (const field of this.registry.get(id)?.configSchema ?? []) {
+      if (!field.secret) {
+        identity[field.key] = settings[field.key]
+      }
+    }
+
+    return identity
+  }
+
+  getAllProviders(): LLMProvider[] {
+    return this.registry.getIds().map((id) => this.getProvider(id))
+  }
+
+  getConfiguredProviders(): LLMProvider[] {
+    return this.registry.getConfiguredIds().map((id) => this.getProvider(id))
+  }
+
+  // Bypasses every wrapper, so retries, failover and the cache cannot mask a broken connection
+  async diagnoseProvider(id: string, signal?: AbortSignal): Promise<ProviderDiagnostics> {
+    return diagnoseProvider(id, this.registry.getProvider(id), signal)
   }
 }
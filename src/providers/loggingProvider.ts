@@ -0,0 +1,126 @@
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { StreamCollector } from "./streamEvents"
+import { embedWith } from "./embeddings"
+import type { ProviderLog } from "../utils/providerLog"
+import { isAbortError } from "../utils/cancellation"
+import { DEFAULT_CONTEXT_WINDOW } from "../utils/tokenBudget"
+
+// Writes every call that reaches a provider to the "Pyr Dev" output channel, retries included, with its latency,
+// token counts and outcome
+export class LoggingProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly log: ProviderLog,
+    private readonly providerId: string,
+    private readonly getConfiguredModel: () => string,
+  ) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const started = Date.now()
+
+    try {
+      const response = await this.inner.generateResponse(messages, options)
+      this.logCall(messages, options, started, false, { response })
+      return response
+    } catch (error) {
+      this.logCall(messages, options, started, false, { error })
+      throw error
+    }
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const started = Date.now()
+    const collected = new StreamCollector()
+    let failed = false
+    let completed = false
+
+    try {
+      for await (const event of this.inner.generateStreamResponse(messages, options)) {
+        collected.add(event)
+        yield event
+      }
+      completed = true
+    } catch (error) {
+      failed = true
+      this.logCall(messages, options, started, true, { response: toLoggedResponse(collected), error })
+      throw error
+    } finally {
+      // A consumer that stops reading ends the stream without an error
+      if (!failed) {
+        this.logCall(messages, options, started, true, { response: toLoggedResponse(collected), cancelled: !completed })
+      }
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName()
+  }
+
+  getContextWindow(model?: string): number {
+    return this.inner.getContextWindow?.(model) ?? DEFAULT_CONTEXT_WINDOW
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.inner.supportsEmbeddings?.() ?? false
+  }
+
+  async embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    const started = Date.now()
+    // Logged like a prompt, one user message per text
+    const messages = texts.map((text): LLMMessage => ({ role: "user", content: text }))
+    const logOptions: LLMOptions = {
+      model: options.model,
+      capability: options.capability ?? "embed",
+      signal: options.signal,
+    }
+
+    try {
+      const response = await embedWith(this.inner, texts, options)
+      this.logCall(messages, logOptions, started, false, { response })
+      return response
+    } catch (error) {
+      this.logCall(messages, logOptions, started, false, { error })
+      throw error
+    }
+  }
+
+  private logCall(
+    messages: LLMMessage[],
+    options: LLMOptions,
+    started: number,
+    stream: boolean,
+    outcome: { response?: LLMResponse | LLMEmbeddingResponse; error?: unknown; cancelled?: boolean },
+  ): void {
+    this.log.logCall({
+      providerId: this.providerId,
+      model: options.model || this.getConfiguredModel(),
+      capability: options.capability ?? "other",
+      stream,
+      durationMs: Date.now() - started,
+      messages,
+      ...outcome,
+      cancelled: outcome.cancelled || (outcome.error !== undefined && isAbortError(outcome.error, options.signal)),
+    })
+  }
+}
+
+// Malformed tool-call JSON is reported to the caller elsewhere; the log still gets the text
+function toLoggedResponse(collected: StreamCollector): LLMResponse {
+  try {
+    return collected.toResponse()
+  } catch {
+    return { content: collected.content, finishReason: collected.finishReason, usage: collected.usage }
+  }
+}
@@ -0,0 +1,33 @@
+import type { LLMImagePart, LLMMessage } from "./llmProvider"
+
+// The text of a message, with images reduced to a placeholder, for places that can only show or send text
+export function getMessageText(content: LLMMessage["content"]): string {
+  if (typeof content === "string") {
+    return content
+  }
+
+  return content.map((part) => (part.type === "text" ? part.text : `[image: ${part.name || part.mimeType}]`)).join("\n")
+}
+
+export function getMessageImages(content: LLMMessage["content"]): LLMImagePart[] {
+  return typeof content === "string" ? [] : content.filter((part): part is LLMImagePart => part.type === "image")
+}
+
+// Messages reduced to what affects the answer, with line endings and surrounding whitespace normalized, for
+// building stable request keys
+export function normalizeMessages(messages: LLMMessage[]): Record<string, unknown>[] {
+  return messages.map((message) => ({
+    role: message.role,
+    content:
+      typeof message.content === "string"
+        ? normalizeText(message.content)
+        : message.content.map((part) => (part.type === "text" ? { ...part, text: normalizeText(part.text) } : part)),
+    toolCalls: message.toolCalls ?? null,
+    toolCallId: message.toolCallId ?? null,
+    name: message.name ?? null,
+  }))
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\r\n/g, "\n").trim()
+}
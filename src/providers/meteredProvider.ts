@@ -0,0 +1,100 @@
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { StreamCollector } from "./streamEvents"
+import { embedWith } from "./embeddings"
+import type { UsageLedger } from "../utils/usageLedger"
+import { DEFAULT_CONTEXT_WINDOW, countMessageTokens, countTokens } from "../utils/tokenBudget"
+
+// Records every request that reaches a provider in the usage ledger and enforces the spending budgets.
+// Streams and responses without reported usage are recorded with locally counted tokens.
+export class MeteredProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly ledger: UsageLedger,
+    private readonly providerId: string,
+    private readonly getConfiguredModel: () => string,
+  ) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    this.ledger.checkBudget()
+
+    const response = await this.inner.generateResponse(messages, options)
+    this.ledger.record({
+      provider: this.providerId,
+      model: options.model || this.getConfiguredModel(),
+      capability: options.capability ?? "other",
+      promptTokens: response.usage?.promptTokens ?? countMessageTokens(messages),
+      completionTokens: response.usage?.completionTokens ?? countTokens(response.content),
+    })
+
+    return response
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    this.ledger.checkBudget()
+
+    const collected = new StreamCollector()
+    let completed = false
+    try {
+      for await (const event of this.inner.generateStreamResponse(messages, options)) {
+        collected.add(event)
+        yield event
+      }
+      completed = true
+    } finally {
+      // A stream cancelled part-way was still billed for what the server generated so far
+      if (completed || collected.content) {
+        this.recordStream(messages, options, collected)
+      }
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName()
+  }
+
+  getContextWindow(model?: string): number {
+    return this.inner.getContextWindow?.(model) ?? DEFAULT_CONTEXT_WINDOW
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.inner.supportsEmbeddings?.() ?? false
+  }
+
+  async embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    this.ledger.checkBudget()
+
+    const response = await embedWith(this.inner, texts, options)
+    this.ledger.record({
+      provider: this.providerId,
+      // The configured model is the chat model, so only the embedding model's own name will do
+      model: response.model || options.model || "",
+      capability: options.capability ?? "embed",
+      promptTokens: response.usage?.promptTokens ?? texts.reduce((sum, text) => sum + countTokens(text), 0),
+      completionTokens: 0,
+    })
+
+    return response
+  }
+
+  private recordStream(messages: LLMMessage[], options: LLMOptions, collected: StreamCollector): void {
+    this.ledger.record({
+      provider: this.providerId,
+      model: options.model || this.getConfiguredModel(),
+      capability: options.capability ?? "other",
+      promptTokens: collected.usage?.promptTokens ?? countMessageTokens(messages),
+      completionTokens: collected.usage?.completionTokens ?? countTokens(collected.content),
+    })
+  }
+}
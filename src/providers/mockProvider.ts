@@ -0,0 +1,236 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMCapability,
+  LLMConnectionInfo,
+  LLMFinishReason,
+  LLMStreamEvent,
+} from "./llmProvider"
+import {
+  LLMAuthError,
+  LLMFatalError,
+  LLMRateLimitError,
+  LLMTransientError,
+  type LLMErrorKind,
+  type LLMProviderError,
+} from "./providerErrors"
+import { getMessageText } from "./messageContent"
+import { sleep } from "../utils/cancellation"
+import { getContextWindow } from "../utils/tokenBudget"
+import { getUserSetting } from "../utils/configManager"
+
+const PROVIDER_NAME = "Mock"
+
+export interface MockRequest {
+  messages: LLMMessage[]
+  lastUserMessage: string
+  capability?: LLMCapability
+  options: LLMOptions
+}
+
+export interface MockRule {
+  // Regular expression, tested case-insensitively against the last user message
+  match?: string
+  capability?: LLMCapability
+  // Canned text; a .js rules file may also compute it from the request
+  response?: string | ((request: MockRequest) => string | Promise<string>)
+  // Appended to the response as a fenced code block
+  code?: { language?: string; content: string }
+  // Streamed as given instead of splitting the response into words
+  chunks?: string[]
+  // Defaults to "stop"; e.g. "length" to see how a truncated answer is handled
+  finishReason?: LLMFinishReason
+  // Before the answer (or error) starts
+  delayMs?: number
+  // Between streamed chunks
+  chunkDelayMs?: number
+  // Thrown after the delay; streams throw it after yielding `chunks`, to simulate a connection dropped mid-answer
+  error?: { kind: LLMErrorKind; message?: string; status?: number; retryAfterMs?: number }
+}
+
+interface MockRuleFile {
+  rules: MockRule[]
+}
+
+// Answers from rules in a local JSON or JavaScript file ("pyr-dev.mock.rulesFile"), for developing UI and error
+// paths without an API key. The first rule whose `match` and `capability` both fit the request wins; a request
+// no rule matches fails, so that a missing rule is noticed instead of answered with something arbitrary.
+export class MockProvider implements LLMProvider {
+  private loaded: { file: string; mtime: number; rules: MockRule[] } | undefined
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const { rule, request } = await this.findRule(messages, options)
+
+    await sleep(rule.delayMs ?? 0, options.signal)
+    if (rule.error) {
+      throw createError(rule.error)
+    }
+
+    const content = (await buildText(rule, request)) || (rule.chunks ?? []).join("")
+    return { content, finishReason: rule.finishReason ?? "stop" }
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const { rule, request } = await this.findRule(messages, options)
+
+    await sleep(rule.delayMs ?? 0, options.signal)
+    const chunks = rule.chunks ?? (rule.error ? [] : splitWords(await buildText(rule, request)))
+
+    for (const [index, chunk] of chunks.entries()) {
+      if (index > 0) {
+        await sleep(rule.chunkDelayMs ?? 0, options.signal)
+      }
+      yield { type: "text", text: chunk }
+    }
+
+    if (rule.error) {
+      throw createError(rule.error)
+    }
+    yield { type: "finish", reason: rule.finishReason ?? "stop" }
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  getProviderName(): string {
+    return PROVIDER_NAME
+  }
+
+  getContextWindow(model?: string): number {
+    return getContextWindow(model || "")
+  }
+
+  getConnectionInfo(): LLMConnectionInfo {
+    return { endpoint: this.getRulesFile() }
+  }
+
+  private async findRule(
+    messages: LLMMessage[],
+    options: LLMOptions,
+  ): Promise<{ rule: MockRule; request: MockRequest }> {
+    const lastUser = [...messages].reverse().find((message) => message.role === "user")
+    const request: MockRequest = {
+      messages,
+      lastUserMessage: lastUser ? getMessageText(lastUser.content) : "",
+      capability: options.capability,
+      options,
+    }
+
+    const rule = (await this.loadRules()).find(
+      (candidate) =>
+        (!candidate.capability || candidate.capability === request.capability) &&
+        (!candidate.match || new RegExp(candidate.match, "i").test(request.lastUserMessage)),
+    )
+
+    if (!rule) {
+      throw new LLMFatalError(
+        `No mock rule matches this request (capability "${request.capability ?? "none"}", last user message ` +
+          `"${request.lastUserMessage.slice(0, 80).replace(/\s+/g, " ")}"). Add a rule to ${this.getRulesFile()}.`,
+        PROVIDER_NAME,
+      )
+    }
+
+    return { rule, request }
+  }
+
+  // Reloaded whenever the file changes, so rules can be edited while the extension runs
+  private async loadRules(): Promise<MockRule[]> {
+    const file = this.getRulesFile()
+
+    // Loading a .js file runs its code, so it must be named by an absolute path in user settings: neither a
+    // workspace's own settings nor a relative path, which resolves inside the workspace, may pick it
+    const configured = vscode.workspace.getConfiguration("pyr-dev").get<string>("mock.rulesFile", "")
+    if (file.endsWith(".js") && configured !== getUserSetting("mock.rulesFile", "")) {
+      throw new LLMFatalError(
+        `Mock rules file ${file} is JavaScript, which is only loaded when pyr-dev.mock.rulesFile is set in user ` +
+          `settings. Use a .json rules file in workspace settings.`,
+        PROVIDER_NAME,
+      )
+    }
+    if (file.endsWith(".js") && !path.isAbsolute(configured)) {
+      throw new LLMFatalError(
+        `Mock rules file ${configured} is JavaScript, which is only loaded from an absolute path. Set ` +
+          `pyr-dev.mock.rulesFile to the full path of the file, or use a .json rules file.`,
+        PROVIDER_NAME,
+      )
+    }
+
+    let mtime: number
+    try {
+      mtime = (await vscode.workspace.fs.stat(vscode.Uri.file(file))).mtime
+    } catch (error: any) {
+      throw new LLMFatalError(`Mock rules file ${file} could not be read: ${error.message}`, PROVIDER_NAME)
+    }
+
+    if (this.loaded?.file === file && this.loaded.mtime === mtime) {
+      return this.loaded.rules
+    }
+
+    let contents: MockRuleFile | MockRule[]
+    try {
+      if (file.endsWith(".js")) {
+        delete require.cache[require.resolve(file)]
+        contents = require(file)
+      } else {
+        const data = await vscode.workspace.fs.readFile(vscode.Uri.file(file))
+        contents = JSON.parse(Buffer.from(data).toString("utf8"))
+      }
+    } catch (error: any) {
+      throw new LLMFatalError(`Mock rules file ${file} is invalid: ${error.message}`, PROVIDER_NAME)
+    }
+
+    const rules = Array.isArray(contents) ? contents : contents?.rules
+    if (!Array.isArray(rules)) {
+      throw new LLMFatalError(`Mock rules file ${file} must contain a "rules" array`, PROVIDER_NAME)
+    }
+
+    this.loaded = { file, mtime, rules }
+    return rules
+  }
+
+  private getRulesFile(): string {
+    const configured = vscode.workspace.getConfiguration("pyr-dev").get<string>("mock.rulesFile", "")
+    const folder = vscode.workspace.workspaceFolders?.[0]
+
+    if (path.isAbsolute(configured) || !folder) {
+      return configured
+    }
+    return path.join(folder.uri.fsPath, configured)
+  }
+}
+
+async function buildText(rule: MockRule, request: MockRequest): Promise<string> {
+  const text = typeof rule.response === "function" ? await rule.response(request) : (rule.response ?? "")
+  if (!rule.code) {
+    return text
+  }
+
+  const block = "```" + (rule.code.language ?? "") + "\n" + rule.code.content + "\n```"
+  return text ? `${text}\n\n${block}` : block
+}
+
+// Words with their trailing whitespace, so the joined chunks equal the original text
+function splitWords(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? []
+}
+
+function createError(error: NonNullable<MockRule["error"]>): LLMProviderError {
+  const message = error.message ?? `Simulated ${error.kind} error`
+
+  switch (error.kind) {
+    case "auth":
+      return new LLMAuthError(message, PROVIDER_NAME, error.status ?? 401)
+    case "rateLimit":
+      return new LLMRateLimitError(message, PROVIDER_NAME, error.status ?? 429, error.retryAfterMs)
+    case "transient":
+      return new LLMTransientError(message, PROVIDER_NAME, error.status ?? 503)
+    case "fatal":
+    default:
+      return new LLMFatalError(message, PROVIDER_NAME, error.status ?? 400)
+  }
+}
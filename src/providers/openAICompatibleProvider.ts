@@ -0,0 +1,202 @@
+import * as vscode from "vscode"
+import { OpenAI } from "openai"
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMConnectionInfo,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { isAbortError } from "../utils/cancellation"
+import { getContextWindow } from "../utils/tokenBudget"
+import { SecretManager } from "../utils/secretManager"
+import { createHttpAgent, getTransportSettings } from "../utils/transport"
+import { LLMUnsupportedError, classifyProviderError } from "./providerErrors"
+import { embedInBatches } from "./embeddings"
+import {
+  fromOpenAIEmbeddings,
+  fromOpenAIFinishReason,
+  fromOpenAIStreamChunk,
+  fromOpenAIToolCalls,
+  fromOpenAIUsage,
+  toOpenAIEmbeddingParams,
+  toOpenAIMessages,
+  toOpenAIResponseFormat,
+  toOpenAISamplingParams,
+  toOpenAIToolChoice,
+  toOpenAITools,
+} from "./openAIFormat"
+
+// Local servers usually embed one input after another, so smaller batches keep each request within the timeout
+const EMBEDDING_BATCH_SIZE = 32
+
+// Talks to any server exposing the OpenAI /v1/chat/completions API (Ollama, llama.cpp, vLLM, LM Studio...), and
+// /v1/embeddings for embeddings
+export class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI | null = null
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const config = vscode.workspace.getConfiguration("pyr-dev")
+      const baseUrl = config.get<string>("openaiCompatible.baseUrl")
+      const apiKey = SecretManager.getInstance().get("openaiCompatible.apiKey")
+
+      if (!baseUrl) {
+        throw new Error("OpenAI-compatible base URL must be configured")
+      }
+
+      const baseURL = baseUrl.replace(/\/+$/, "")
+      const transport = getTransportSettings()
+
+      this.client = new OpenAI({
+        // Local servers usually ignore the key, but the SDK refuses to start without one
+        apiKey: apiKey || "not-needed",
+        baseURL,
+        maxRetries: 0,
+        timeout: transport.timeoutMs,
+        httpAgent: createHttpAgent(baseURL, transport),
+        defaultHeaders: transport.headers,
+      })
+    }
+
+    return this.client
+  }
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const client = this.getClient()
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const model = options.model || config.get<string>("openaiCompatible.model", "")
+    const maxTokens = options.maxTokens || config.get<number>("maxTokens", 4000)
+
+    try {
+      const response = await client.chat.completions.create(
+        {
+          model,
+          messages: toOpenAIMessages(messages),
+          max_tokens: maxTokens,
+          ...toOpenAISamplingParams(options),
+          tools: toOpenAITools(options.tools),
+          tool_choice: options.tools?.length ? toOpenAIToolChoice(options.toolChoice) : undefined,
+          response_format: toOpenAIResponseFormat(options.responseFormat),
+          stream: false,
+        },
+        { signal: options.signal },
+      )
+
+      const choice = response.choices[0]
+      const toolCalls = fromOpenAIToolCalls(choice?.message?.tool_calls)
+      if (!choice?.message?.content && !toolCalls) {
+        throw new Error("No response content received from OpenAI-compatible server")
+      }
+
+      return {
+        content: choice.message.content || "",
+        model: response.model,
+        candidates:
+          response.choices.length > 1
+            ? response.choices.map((candidate) => candidate.message.content || "")
+            : undefined,
+        toolCalls,
+        finishReason: fromOpenAIFinishReason(choice.finish_reason),
+        usage: fromOpenAIUsage(response.usage),
+      }
+    } catch (error: any) {
+      if (isAbortError(error, options.signal)) {
+        throw error
+      }
+      throw classifyProviderError(error, this.getProviderName())
+    }
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const client = this.getClient()
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const model = options.model || config.get<string>("openaiCompatible.model", "")
+    const maxTokens = options.maxTokens || config.get<number>("maxTokens", 4000)
+
+    try {
+      const stream = await client.chat.completions.create(
+        {
+          model,
+          messages: toOpenAIMessages(messages),
+          max_tokens: maxTokens,
+          // Only the first choice is streamed
+          ...toOpenAISamplingParams({ ...options, n: undefined }),
+          tools: toOpenAITools(options.tools),
+          tool_choice: options.tools?.length ? toOpenAIToolChoice(options.toolChoice) : undefined,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: options.signal },
+      )
+
+      for await (const chunk of stream) {
+        yield* fromOpenAIStreamChunk(chunk)
+      }
+    } catch (error: any) {
+      if (isAbortError(error, options.signal)) {
+        throw error
+      }
+      throw classifyProviderError(error, this.getProviderName())
+    }
+  }
+
+  supportsEmbeddings(): boolean {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return !!(config.get<string>("openaiCompatible.baseUrl") && config.get<string>("openaiCompatible.embeddingModel"))
+  }
+
+  async embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const model = options.model || config.get<string>("openaiCompatible.embeddingModel")
+    if (!model) {
+      throw new LLMUnsupportedError(
+        'No embedding model is configured for the OpenAI-compatible server. Set "pyr-dev.openaiCompatible.embeddingModel".',
+        this.getProviderName(),
+      )
+    }
+
+    const client = this.getClient()
+
+    return embedInBatches(texts, EMBEDDING_BATCH_SIZE, async (batch) => {
+      try {
+        const response = await client.embeddings.create(toOpenAIEmbeddingParams(model, batch, options), {
+          signal: options.signal,
+        })
+        return fromOpenAIEmbeddings(response)
+      } catch (error: any) {
+        if (isAbortError(error, options.signal)) {
+          throw error
+        }
+        throw classifyProviderError(error, this.getProviderName())
+      }
+    })
+  }
+
+  isConfigured(): boolean {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const baseUrl = config.get<string>("openaiCompatible.baseUrl")
+    const model = config.get<string>("openaiCompatible.model")
+    return !!(baseUrl && model)
+  }
+
+  getProviderName(): string {
+    return "OpenAI-Compatible (Local)"
+  }
+
+  getContextWindow(model?: string): number {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return getContextWindow(model || config.get<string>("openaiCompatible.model", ""))
+  }
+
+  getConnectionInfo(): LLMConnectionInfo {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return {
+      endpoint: config.get<string>("openaiCompatible.baseUrl"),
+      model: config.get<string>("openaiCompatible.model", ""),
+    }
+  }
+}
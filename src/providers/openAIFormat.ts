@@ -0,0 +1,223 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from "openai/resources/chat/completions"
+import type { CompletionUsage } from "openai/resources/completions"
+import type { CreateEmbeddingResponse, EmbeddingCreateParams } from "openai/resources/embeddings"
+import type { ResponseFormatJSONSchema } from "openai/resources/shared"
+import type {
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMFinishReason,
+  LLMMessage,
+  LLMResponseFormat,
+  LLMSamplingOptions,
+  LLMStreamEvent,
+  LLMToolCall,
+  LLMToolChoice,
+  LLMToolDefinition,
+  LLMUsage,
+} from "./llmProvider"
+import { getMessageText } from "./messageContent"
+
+// Conversions between Pyr Dev's provider-neutral types and the OpenAI chat completions wire format,
+// shared by every provider that speaks that format (Azure OpenAI, OpenAI-compatible servers)
+
+export function toOpenAIMessages(messages: LLMMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((msg): ChatCompletionMessageParam => {
+    switch (msg.role) {
+      case "tool":
+        return { role: "tool", tool_call_id: msg.toolCallId || "", content: getMessageText(msg.content) }
+      case "assistant":
+        return msg.toolCalls?.length
+          ? {
+              role: "assistant",
+              content: getMessageText(msg.content) || null,
+              tool_calls: msg.toolCalls.map((call) => ({
+                id: call.id,
+                type: "function",
+                function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+              })),
+            }
+          : { role: "assistant", content: getMessageText(msg.content) }
+      case "system":
+        return { role: "system", content: getMessageText(msg.content) }
+      case "user":
+      default:
+        return { role: "user", content: toOpenAIContent(msg.content) }
+    }
+  })
+}
+
+// Images are sent inline as base64 data URLs, so no upload step is needed
+function toOpenAIContent(content: LLMMessage["content"]): string | ChatCompletionContentPart[] {
+  if (typeof content === "string") {
+    return content
+  }
+
+  return content.map((part): ChatCompletionContentPart =>
+    part.type === "text"
+      ? { type: "text", text: part.text }
+      : { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}` } },
+  )
+}
+
+export function toOpenAITools(tools?: LLMToolDefinition[]): ChatCompletionTool[] | undefined {
+  if (!tools?.length) {
+    return undefined
+  }
+
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }))
+}
+
+export function toOpenAIToolChoice(toolChoice?: LLMToolChoice): ChatCompletionToolChoiceOption | undefined {
+  if (!toolChoice || typeof toolChoice === "string") {
+    return toolChoice
+  }
+
+  return { type: "function", function: { name: toolChoice.name } }
+}
+
+export function fromOpenAIToolCalls(toolCalls?: ChatCompletionMessageToolCall[]): LLMToolCall[] | undefined {
+  if (!toolCalls?.length) {
+    return undefined
+  }
+
+  return toolCalls.map((call) => ({
+    id: call.id,
+    name: call.function.name,
+    arguments: parseToolArguments(call.function.name, call.function.arguments),
+  }))
+}
+
+function parseToolArguments(name: string, rawArguments: string): Record<string, any> {
+  if (!rawArguments) {
+    return {}
+  }
+
+  try {
+    return JSON.parse(rawArguments)
+  } catch {
+    throw new Error(`Model returned invalid JSON arguments for tool "${name}"`)
+  }
+}
+
+export function toOpenAIResponseFormat(format?: LLMResponseFormat): ResponseFormatJSONSchema | undefined {
+  if (!format) {
+    return undefined
+  }
+
+  // Strict mode rejects schemas with optional properties, so rely on our own validation instead
+  return { type: "json_schema", json_schema: { name: format.name, schema: format.schema, strict: false } }
+}
+
+// Everything but max_tokens, whose default comes from the provider's settings. `??` keeps an explicit 0.
+export function toOpenAISamplingParams(options: LLMSamplingOptions) {
+  return {
+    temperature: options.temperature ?? 0.7,
+    top_p: options.topP ?? 1,
+    stop: options.stop?.length ? options.stop : undefined,
+    seed: options.seed,
+    presence_penalty: options.presencePenalty,
+    frequency_penalty: options.frequencyPenalty,
+    n: options.n,
+  }
+}
+
+export function fromOpenAIFinishReason(
+  reason: ChatCompletion.Choice["finish_reason"] | null | undefined,
+): LLMFinishReason | undefined {
+  switch (reason) {
+    case "stop":
+      return "stop"
+    case "length":
+      return "length"
+    case "tool_calls":
+    case "function_call":
+      return "toolCalls"
+    case "content_filter":
+      return "contentFilter"
+    case null:
+    case undefined:
+      return undefined
+    default:
+      return "other"
+  }
+}
+
+export function fromOpenAIUsage(usage?: CompletionUsage | null): LLMUsage | undefined {
+  return usage
+    ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, totalTokens: usage.total_tokens }
+    : undefined
+}
+
+// With stream_options.include_usage the last chunk has no choices and carries only the usage
+export function fromOpenAIStreamChunk(chunk: ChatCompletionChunk): LLMStreamEvent[] {
+  const events: LLMStreamEvent[] = []
+  const choice = chunk.choices[0]
+
+  if (choice?.delta?.content) {
+    events.push({ type: "text", text: choice.delta.content })
+  }
+  for (const call of choice?.delta?.tool_calls ?? []) {
+    events.push({
+      type: "toolCall",
+      index: call.index,
+      id: call.id,
+      name: call.function?.name,
+      argumentsDelta: call.function?.arguments ?? "",
+    })
+  }
+
+  const reason = fromOpenAIFinishReason(choice?.finish_reason)
+  if (reason) {
+    events.push({ type: "finish", reason })
+  }
+
+  const usage = fromOpenAIUsage(chunk.usage)
+  if (usage) {
+    events.push({ type: "usage", usage })
+  }
+
+  return events
+}
+
+export function toOpenAIEmbeddingParams(
+  model: string,
+  input: string[],
+  options: LLMEmbeddingOptions,
+): EmbeddingCreateParams {
+  return {
+    model,
+    input,
+    dimensions: options.dimensions,
+    // The SDK asks for base64 by default, which some local servers ignore and answer with plain floats anyway
+    encoding_format: "float",
+  }
+}
+
+export function fromOpenAIEmbeddings(response: CreateEmbeddingResponse): LLMEmbeddingResponse {
+  // Servers are not required to keep input order, but every item carries its index
+  const embeddings = [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding)
+
+  return {
+    embeddings,
+    model: response.model,
+    // Local servers often leave usage out
+    usage: response.usage
+      ? { promptTokens: response.usage.prompt_tokens, completionTokens: 0, totalTokens: response.usage.total_tokens }
+      : undefined,
+  }
+}
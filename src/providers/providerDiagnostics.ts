@@ -0,0 +1,200 @@
+import type { LLMProvider, LLMMessage, LLMOptions, LLMConnectionInfo, LLMFinishReason } from "./llmProvider"
+import { LLMProviderError } from "./providerErrors"
+
+export type ConnectionProblem =
+  "dns" | "tls" | "network" | "timeout" | "auth" | "modelNotFound" | "rateLimit" | "server" | "other"
+
+export interface CheckResult {
+  ok: boolean
+  durationMs: number
+  problem?: ConnectionProblem
+  error?: string
+}
+
+export interface CompletionCheck extends CheckResult {
+  reply?: string
+  // The model the server says answered, e.g. the snapshot behind an Azure deployment
+  resolvedModel?: string
+}
+
+export interface StreamingCheck extends CheckResult {
+  firstTokenMs?: number
+  chunks: number
+  finishReason?: LLMFinishReason
+  // Whether the server reported token usage for the stream, which metering then uses instead of an estimate
+  usageReported: boolean
+}
+
+export interface ProviderDiagnostics {
+  providerId: string
+  providerName: string
+  connection: LLMConnectionInfo
+  completion: CompletionCheck
+  // Undefined when the completion check already showed that the provider cannot be reached
+  streaming?: StreamingCheck
+}
+
+const PROBE_MESSAGES: LLMMessage[] = [{ role: "user", content: 'Reply with the single word "pong".' }]
+const PROBE_OPTIONS: LLMOptions = { maxTokens: 16 }
+const CHECK_TIMEOUT_MS = 30000
+
+// Streaming is not worth testing when the plain request never reached a working model
+const UNREACHABLE: ConnectionProblem[] = ["dns", "tls", "network", "timeout", "auth", "modelNotFound"]
+
+const TLS_CODES = [
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+]
+
+export const CONNECTION_PROBLEMS: Record<ConnectionProblem, { label: string; hint: string }> = {
+  dns: { label: "DNS lookup failed", hint: 'Check the endpoint host name and "pyr-dev.network.proxy".' },
+  tls: {
+    label: "TLS handshake failed",
+    hint: 'The server certificate is not trusted. Behind an intercepting proxy, set "pyr-dev.network.caFile".',
+  },
+  network: { label: "Connection failed", hint: "The server refused or dropped the connection. Is it running?" },
+  timeout: { label: "Timed out", hint: `No answer within ${CHECK_TIMEOUT_MS / 1000}s.` },
+  auth: { label: "Authentication failed", hint: 'The credentials were rejected. Run "Pyr Dev: Set API Key".' },
+  modelNotFound: {
+    label: "Model not found",
+    hint: "The endpoint works, but the configured model or deployment does not exist there.",
+  },
+  rateLimit: { label: "Rate limited", hint: "The credentials work, but the quota is currently used up." },
+  server: { label: "Server error", hint: "The service failed to answer. Try again later." },
+  other: { label: "Request failed", hint: "See the error message for details." },
+}
+
+// Sends one short prompt as a plain request and one as a stream, timing both. Meant for the bare registry
+// provider: retries, failover and the response cache would hide exactly what is being tested.
+export async function diagnoseProvider(
+  providerId: string,
+  provider: LLMProvider,
+  signal?: AbortSignal,
+): Promise<ProviderDiagnostics> {
+  const { result, value: response } = await runCheck(signal, (checkSignal) =>
+    provider.generateResponse(PROBE_MESSAGES, { ...PROBE_OPTIONS, signal: checkSignal }),
+  )
+  const completion: CompletionCheck = { ...result, reply: response?.content.trim(), resolvedModel: response?.model }
+
+  let streaming: StreamingCheck | undefined
+  if (!completion.problem || !UNREACHABLE.includes(completion.problem)) {
+    const started = Date.now()
+    let firstTokenMs: number | undefined
+    let chunks = 0
+    let finishReason: LLMFinishReason | undefined
+    let usageReported = false
+
+    const { result } = await runCheck(signal, async (checkSignal) => {
+      const stream = provider.generateStreamResponse(PROBE_MESSAGES, { ...PROBE_OPTIONS, signal: checkSignal })
+      for await (const event of stream) {
+        if (event.type === "text") {
+          firstTokenMs ??= Date.now() - started
+          chunks++
+        } else if (event.type === "finish") {
+          finishReason = event.reason
+        } else if (event.type === "usage") {
+          usageReported = true
+        }
+      }
+    })
+
+    // A stream that ends without a single chunk is as broken as one that throws
+    const details = { chunks, finishReason, usageReported }
+    streaming =
+      result.ok && chunks === 0
+        ? { ...result, ...details, ok: false, problem: "other", error: "The stream ended without any content" }
+        : { ...result, ...details, firstTokenMs }
+  }
+
+  return {
+    providerId,
+    providerName: provider.getProviderName(),
+    connection: provider.getConnectionInfo?.() ?? {},
+    completion,
+    streaming,
+  }
+}
+
+async function runCheck<T>(
+  signal: AbortSignal | undefined,
+  check: (signal: AbortSignal) => Promise<T>,
+): Promise<{ result: CheckResult; value?: T }> {
+  const controller = new AbortController()
+  const onAbort = () => controller.abort()
+  signal?.addEventListener("abort", onAbort, { once: true })
+
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, CHECK_TIMEOUT_MS)
+
+  const started = Date.now()
+  try {
+    const value = await check(controller.signal)
+    return { result: { ok: true, durationMs: Date.now() - started }, value }
+  } catch (error: any) {
+    // The user cancelled the whole test; don't report that as a provider problem
+    if (signal?.aborted) {
+      throw error
+    }
+
+    const durationMs = Date.now() - started
+    const problem = timedOut ? "timeout" : classifyConnectionProblem(error)
+    const message = timedOut ? `No answer within ${CHECK_TIMEOUT_MS / 1000}s` : (error?.message ?? String(error))
+    return { result: { ok: false, durationMs, problem, error: message } }
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener("abort", onAbort)
+  }
+}
+
+// Looks through the whole cause chain: SDKs wrap the Node network error that carries the useful code
+export function classifyConnectionProblem(error: any): ConnectionProblem {
+  const codes: string[] = []
+  const messages: string[] = []
+  let status: number | undefined
+
+  for (let current = error, depth = 0; current && depth < 6; current = current.cause, depth++) {
+    if (typeof current.code === "string") codes.push(current.code)
+    if (typeof current.message === "string") messages.push(current.message)
+    status ??= typeof current.status === "number" ? current.status : undefined
+  }
+
+  const text = messages.join("\n")
+
+  if (codes.some((code) => code === "ENOTFOUND" || code === "EAI_AGAIN") || /getaddrinfo/i.test(text)) {
+    return "dns"
+  }
+  if (
+    codes.some((code) => code.startsWith("CERT_") || TLS_CODES.includes(code)) ||
+    /certificate|\bSSL\b|\bTLS\b/i.test(text)
+  ) {
+    return "tls"
+  }
+  if (status === 401 || status === 403 || (error instanceof LLMProviderError && error.kind === "auth")) {
+    return "auth"
+  }
+  if (status === 404 || /DeploymentNotFound|model_not_found|model .* (?:not found|does not exist)/i.test(text)) {
+    return "modelNotFound"
+  }
+  if (status === 429) {
+    return "rateLimit"
+  }
+  if (codes.includes("ETIMEDOUT") || codes.includes("UND_ERR_CONNECT_TIMEOUT")) {
+    return "timeout"
+  }
+  if (codes.some((code) => ["ECONNREFUSED", "ECONNRESET", "EHOSTUNREACH", "ENETUNREACH", "EPIPE"].includes(code))) {
+    return "network"
+  }
+  if (status !== undefined && status >= 500) {
+    return "server"
+  }
+  if (/fetch failed|socket hang up|network/i.test(text)) {
+    return "network"
+  }
+  return "other"
+}
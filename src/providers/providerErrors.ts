@@ -0,0 +1,177 @@
+export type LLMErrorKind = "auth" | "rateLimit" | "transient" | "fatal"
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    readonly kind: LLMErrorKind,
+    readonly provider: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number,
+    readonly cause?: unknown,
+  ) {
+    super(message)
+    this.name = "LLMProviderError"
+  }
+
+  get isRetryable(): boolean {
+    return this.kind === "rateLimit" || this.kind === "transient"
+  }
+}
+
+export class LLMAuthError extends LLMProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    status?: number,
+    cause?: unknown,
+    // What the user should do instead of setting an API key, for providers authenticating some other way
+    readonly remedy?: string,
+  ) {
+    super(message, "auth", provider, status, undefined, cause)
+    this.name = "LLMAuthError"
+  }
+}
+
+export class LLMRateLimitError extends LLMProviderError {
+  constructor(message: string, provider: string, status?: number, retryAfterMs?: number, cause?: unknown) {
+    super(message, "rateLimit", provider, status, retryAfterMs, cause)
+    this.name = "LLMRateLimitError"
+  }
+}
+
+export class LLMTransientError extends LLMProviderError {
+  constructor(message: string, provider: string, status?: number, cause?: unknown) {
+    super(message, "transient", provider, status, undefined, cause)
+    this.name = "LLMTransientError"
+  }
+}
+
+export class LLMFatalError extends LLMProviderError {
+  constructor(message: string, provider: string, status?: number, cause?: unknown) {
+    super(message, "fatal", provider, status, undefined, cause)
+    this.name = "LLMFatalError"
+  }
+}
+
+// The provider lacks what the request needs, e.g. embeddings without an embedding model configured
+export class LLMUnsupportedError extends LLMFatalError {
+  constructor(message: string, provider: string) {
+    super(message, provider)
+    this.name = "LLMUnsupportedError"
+  }
+}
+
+// The model kept answering with JSON that does not match the requested schema, even after being re-prompted
+export class LLMSchemaError extends LLMFatalError {
+  constructor(
+    message: string,
+    provider: string,
+    readonly validationErrors: string[],
+    readonly content: string,
+  ) {
+    super(message, provider)
+    this.name = "LLMSchemaError"
+  }
+}
+
+const TRANSIENT_STATUSES = [408, 409, 500, 502, 503, 504, 529]
+const TRANSIENT_NETWORK_CODES = ["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EPIPE", "EAI_AGAIN", "UND_ERR_SOCKET"]
+
+// Maps SDK and network errors from any provider onto the shared error kinds
+export function classifyProviderError(error: any, provider: string): LLMProviderError {
+  if (error instanceof LLMProviderError) {
+    return error
+  }
+
+  const status: number | undefined = typeof error?.status === "number" ? error.status : undefined
+  const message = `${provider} Error: ${error?.message || "Unknown error"}`
+
+  if (status === 401 || status === 403) {
+    return new LLMAuthError(message, provider, status, error)
+  }
+
+  if (status === 429) {
+    return new LLMRateLimitError(message, provider, status, parseRetryAfter(error), error)
+  }
+
+  const code = error?.code || error?.cause?.code
+  const isNetworkError =
+    TRANSIENT_NETWORK_CODES.includes(code) ||
+    error?.name === "APIConnectionError" ||
+    error?.name === "APIConnectionTimeoutError" ||
+    /fetch failed|network|socket hang up|timed? ?out/i.test(error?.message || "")
+
+  if ((status !== undefined && TRANSIENT_STATUSES.includes(status)) || (status === undefined && isNetworkError)) {
+    return new LLMTransientError(message, provider, status, error)
+  }
+
+  return new LLMFatalError(message, provider, status, error)
+}
+
+function parseRetryAfter(error: any): number | undefined {
+  // OpenAI SDK exposes response headers as a plain object
+  const headers = error?.headers
+  const retryAfterMs = headers?.["retry-after-ms"]
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs)
+  }
+
+  const retryAfter = headers?.["retry-after"]
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (!isNaN(seconds)) {
+      return seconds * 1000
+    }
+
+    const date = Date.parse(retryAfter)
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now())
+    }
+  }
+
+  // Gemini reports the delay as a google.rpc.RetryInfo detail, e.g. { retryDelay: "30s" }
+  const retryInfo = (error?.errorDetails as any[] | undefined)?.find((detail) => detail?.retryDelay)
+  const match = /^([\d.]+)s$/.exec(retryInfo?.retryDelay || "")
+  if (match) {
+    return Number(match[1]) * 1000
+  }
+
+  return undefined
+}
+
+// Whether entering a new API key is the way to fix the error
+export function needsApiKey(error: LLMProviderError): boolean {
+  return error.kind === "auth" && !(error instanceof LLMAuthError && error.remedy)
+}
+
+export function describeProviderError(error: LLMProviderError): { summary: string; detail: string } {
+  switch (error.kind) {
+    case "auth": {
+      // Without a status the credentials never reached the server, e.g. a token helper failed
+      const reason = error.status ? `${error.provider} rejected the credentials (HTTP ${error.status}).` : error.message
+      const remedy = (error instanceof LLMAuthError && error.remedy) || 'Run "Pyr Dev: Set API Key" to update it.'
+      return {
+        summary: `${error.provider}: authentication failed`,
+        detail: `${reason} ${remedy}`,
+      }
+    }
+    case "rateLimit": {
+      const wait = error.retryAfterMs ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.` : ""
+      return {
+        summary: `${error.provider}: rate limited`,
+        detail: `${error.provider} is rate limiting requests.${wait}`,
+      }
+    }
+    case "transient":
+      return {
+        summary: `${error.provider}: temporarily unavailable`,
+        detail: `${error.provider} is temporarily unavailable${error.status ? ` (HTTP ${error.status})` : ""}. Please retry shortly.`,
+      }
+    case "fatal":
+    default:
+      if (error instanceof LLMSchemaError) {
+        return { summary: `${error.provider}: unusable response`, detail: error.message }
+      }
+      return { summary: `${error.provider}: request failed`, detail: error.message }
+  }
+}
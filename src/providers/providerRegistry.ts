@@ -0,0 +1,343 @@
+import * as vscode from "vscode"
+import type { LLMProvider } from "./llmProvider"
+import { AzureOpenAIProvider, DEFAULT_AZURE_API_VERSION } from "./azureOpenAIProvider"
+import { GeminiProvider } from "./geminiProvider"
+import { OpenAICompatibleProvider } from "./openAICompatibleProvider"
+import { ReplayProvider } from "./replayProvider"
+import { MockProvider } from "./mockProvider"
+import { SecretManager } from "../utils/secretManager"
+import { getUserSetting } from "../utils/configManager"
+import { DEFAULT_FIXTURE_DIRECTORY, FixtureStore } from "../utils/fixtureStore"
+
+export interface ProviderConfigField {
+  // Setting key relative to the "pyr-dev" section, e.g. "azureOpenAI.apiKey"
+  key: string
+  label: string
+  // A function when the field is only needed in some setups, e.g. an API key unless token auth is chosen
+  required: boolean | ((settings: Record<string, string>) => boolean)
+  secret?: boolean
+  // Read from user settings only, for settings naming a command or file the extension runs or reads
+  userOnly?: boolean
+  defaultValue?: string
+  // Returns an error message when the (non-empty) value is invalid
+  validate?: (value: string) => string | undefined
+}
+
+export interface ProviderDescriptor {
+  id: string
+  displayName: string
+  shortName: string
+  icon: string
+  description: string
+  detail: string
+  configSchema: ProviderConfigField[]
+  // Key of the config field naming the model (Azure: the deployment), used for pricing and reports
+  modelKey?: string
+  // Offline providers (e.g. fixture replay) are only used when explicitly selected: as the default provider, in a
+  // route or in "pyr-dev.failover.order". They never become an implicit fallback for a real provider.
+  offline?: boolean
+  create(): LLMProvider
+}
+
+export class ProviderRegistry {
+  private static instance: ProviderRegistry
+  private descriptors: Map<string, ProviderDescriptor> = new Map()
+  private providers: Map<string, LLMProvider> = new Map()
+
+  private constructor() {
+    registerBuiltinProviders(this)
+  }
+
+  static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry()
+    }
+    return ProviderRegistry.instance
+  }
+
+  register(descriptor: ProviderDescriptor): vscode.Disposable {
+    if (this.descriptors.has(descriptor.id)) {
+      throw new Error(`LLM provider "${descriptor.id}" is already registered`)
+    }
+
+    this.descriptors.set(descriptor.id, descriptor)
+
+    return new vscode.Disposable(() => {
+      this.descriptors.delete(descriptor.id)
+      this.providers.delete(descriptor.id)
+    })
+  }
+
+  get(id: string): ProviderDescriptor | undefined {
+    return this.descriptors.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.descriptors.has(id)
+  }
+
+  getAll(): ProviderDescriptor[] {
+    return Array.from(this.descriptors.values())
+  }
+
+  getIds(): string[] {
+    return Array.from(this.descriptors.keys())
+  }
+
+  getProvider(id: string): LLMProvider {
+    const descriptor = this.descriptors.get(id)
+    if (!descriptor) {
+      throw new Error(`Unknown LLM provider: ${id}`)
+    }
+
+    let provider = this.providers.get(id)
+    if (!provider) {
+      provider = descriptor.create()
+      this.providers.set(id, provider)
+    }
+
+    return provider
+  }
+
+  // Drops the cached instance so the next request builds a fresh client from current settings
+  invalidate(id: string): void {
+    this.providers.delete(id)
+  }
+
+  getIdsUsingSecret(key: string): string[] {
+    return this.getAll()
+      .filter((descriptor) => descriptor.configSchema.some((field) => field.secret && field.key === key))
+      .map((descriptor) => descriptor.id)
+  }
+
+  getIdsAffectedBy(event: vscode.ConfigurationChangeEvent): string[] {
+    // Transport settings are baked into every networked provider's client
+    const networkChanged = event.affectsConfiguration("pyr-dev.network")
+
+    return this.getAll()
+      .filter(
+        (descriptor) =>
+          (networkChanged && !descriptor.offline) ||
+          descriptor.configSchema.some((field) => event.affectsConfiguration(`pyr-dev.${field.key}`)),
+      )
+      .map((descriptor) => descriptor.id)
+  }
+
+  getSettings(id: string): Record<string, string> {
+    const descriptor = this.descriptors.get(id)
+    if (!descriptor) {
+      return {}
+    }
+
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const secrets = SecretManager.getInstance()
+    const settings: Record<string, string> = {}
+
+    for (const field of descriptor.configSchema) {
+      if (field.secret) {
+        settings[field.key] = secrets.get(field.key)
+      } else if (field.userOnly) {
+        settings[field.key] = getUserSetting(field.key, field.defaultValue ?? "")
+      } else {
+        settings[field.key] = config.get<string>(field.key, field.defaultValue ?? "")
+      }
+    }
+
+    return settings
+  }
+
+  isConfigured(id: string): boolean {
+    const descriptor = this.descriptors.get(id)
+    if (!descriptor) {
+      return false
+    }
+
+    const settings = this.getSettings(id)
+    return descriptor.configSchema
+      .filter((field) => isRequired(field, settings))
+      .every((field) => !!settings[field.key])
+  }
+
+  // Offline providers count only once selected: their defaults make them always usable, so an unselected replay
+  // provider would otherwise make the extension look configured when no real provider is set up
+  getConfiguredIds(): string[] {
+    return this.getIds().filter((id) => this.isConfigured(id) && (!this.descriptors.get(id)?.offline || isSelected(id)))
+  }
+
+  validate(id: string): string[] {
+    const descriptor = this.descriptors.get(id)
+    if (!descriptor) {
+      return [`Unknown LLM provider: ${id}`]
+    }
+
+    const settings = this.getSettings(id)
+    const touched = descriptor.configSchema.some((field) => settings[field.key] !== (field.defaultValue ?? ""))
+
+    // Only validate providers the user has started to configure
+    if (!touched) {
+      return []
+    }
+
+    const errors: string[] = []
+
+    for (const field of descriptor.configSchema) {
+      const value = settings[field.key]
+
+      if (!value) {
+        if (isRequired(field, settings)) {
+          errors.push(`${descriptor.displayName} ${field.label} is missing`)
+        }
+        continue
+      }
+
+      const error = field.validate?.(value)
+      if (error) {
+        errors.push(`${descriptor.displayName} ${error}`)
+      }
+    }
+
+    return errors
+  }
+}
+
+function registerBuiltinProviders(registry: ProviderRegistry): void {
+  registry.register({
+    id: "azure",
+    displayName: "Azure OpenAI",
+    shortName: "Azure",
+    icon: "$(cloud)",
+    description: "Use Azure OpenAI (GPT-4, GPT-3.5)",
+    detail: "Microsoft's Azure OpenAI service",
+    configSchema: [
+      { key: "azureOpenAI.apiKey", label: "API key", required: (settings) => !usesEntraId(settings), secret: true },
+      {
+        key: "azureOpenAI.endpoint",
+        label: "endpoint",
+        required: true,
+        validate: (value) => (value.startsWith("https://") ? undefined : "endpoint must be a valid HTTPS URL"),
+      },
+      { key: "azureOpenAI.deploymentName", label: "deployment name", required: true, defaultValue: "gpt-4" },
+      {
+        key: "azureOpenAI.apiVersion",
+        label: "API version",
+        required: true,
+        defaultValue: DEFAULT_AZURE_API_VERSION,
+        validate: (value) =>
+          /^\d{4}-\d{2}-\d{2}(-preview)?$/.test(value) ? undefined : 'API version must look like "2024-08-01-preview"',
+      },
+      { key: "azureOpenAI.authentication", label: "authentication", required: true, defaultValue: "apiKey" },
+      {
+        key: "azureOpenAI.tokenCommand",
+        label: "token command",
+        userOnly: true,
+        // Either source will do; the command wins when both are set
+        required: (settings) => usesEntraId(settings) && !settings["azureOpenAI.tokenFile"],
+      },
+      {
+        key: "azureOpenAI.tokenFile",
+        label: "token file",
+        userOnly: true,
+        required: (settings) => usesEntraId(settings) && !settings["azureOpenAI.tokenCommand"],
+      },
+      { key: "azureOpenAI.embeddingDeployment", label: "embedding deployment", required: false },
+    ],
+    modelKey: "azureOpenAI.deploymentName",
+    create: () => new AzureOpenAIProvider(),
+  })
+
+  registry.register({
+    id: "gemini",
+    displayName: "Google Gemini",
+    shortName: "Gemini",
+    icon: "$(sparkle)",
+    description: "Use Google Gemini Pro",
+    detail: "Google's advanced AI model",
+    configSchema: [
+      { key: "gemini.apiKey", label: "API key", required: true, secret: true },
+      { key: "gemini.model", label: "model", required: true, defaultValue: "gemini-pro" },
+      { key: "gemini.embeddingModel", label: "embedding model", required: false, defaultValue: "text-embedding-004" },
+    ],
+    modelKey: "gemini.model",
+    create: () => new GeminiProvider(),
+  })
+
+  registry.register({
+    id: "openaiCompatible",
+    displayName: "OpenAI-Compatible (Local)",
+    shortName: "Local",
+    icon: "$(server)",
+    description: "Use Ollama, llama.cpp, vLLM or any /v1/chat/completions server",
+    detail: "Self-hosted models, works on air-gapped machines",
+    configSchema: [
+      {
+        key: "openaiCompatible.baseUrl",
+        label: "base URL",
+        required: true,
+        validate: (value) => (/^https?:\/\//.test(value) ? undefined : "base URL must be a valid HTTP or HTTPS URL"),
+      },
+      { key: "openaiCompatible.model", label: "model name", required: true },
+      { key: "openaiCompatible.apiKey", label: "API key", required: false, secret: true },
+      { key: "openaiCompatible.embeddingModel", label: "embedding model", required: false },
+    ],
+    modelKey: "openaiCompatible.model",
+    create: () => new OpenAICompatibleProvider(),
+  })
+
+  registry.register({
+    id: "replay",
+    displayName: "Replay (Recorded Fixtures)",
+    shortName: "Replay",
+    icon: "$(history)",
+    description: "Answer from responses recorded with pyr-dev.fixtures.record",
+    detail: "Deterministic and offline, for tests and demos",
+    configSchema: [
+      {
+        key: "fixtures.directory",
+        label: "fixture directory",
+        required: true,
+        defaultValue: DEFAULT_FIXTURE_DIRECTORY,
+      },
+    ],
+    offline: true,
+    create: () => new ReplayProvider(new FixtureStore()),
+  })
+
+  registry.register({
+    id: "mock",
+    displayName: "Mock (Scripted Rules)",
+    shortName: "Mock",
+    icon: "$(beaker)",
+    description: "Answer from rules in a local JSON or JavaScript file",
+    detail: "Canned answers, delays and errors for UI development",
+    configSchema: [
+      {
+        key: "mock.rulesFile",
+        label: "rules file",
+        required: true,
+        validate: (value) => (/\.(json|js)$/.test(value) ? undefined : "rules file must be a .json or .js file"),
+      },
+    ],
+    offline: true,
+    create: () => new MockProvider(),
+  })
+}
+
+function isRequired(field: ProviderConfigField, settings: Record<string, string>): boolean {
+  return typeof field.required === "function" ? field.required(settings) : field.required
+}
+
+// Whether a provider is the default, the target of a route or named in the failover order
+function isSelected(id: string): boolean {
+  const config = vscode.workspace.getConfiguration("pyr-dev")
+  const routes = config.get<Record<string, { provider?: string }>>("routing", {})
+
+  return (
+    config.get<string>("defaultProvider") === id ||
+    Object.values(routes).some((route) => route?.provider === id) ||
+    config.get<string[]>("failover.order", []).includes(id)
+  )
+}
+
+function usesEntraId(settings: Record<string, string>): boolean {
+  return settings["azureOpenAI.authentication"] === "entraId"
+}
@@ -1,5 +1,6 @@
 import * as vscode from "vscode"
 import type { PyrDevAgent } from "../agent/pyrDevAgent"
+import { isAbortError, toAbortSignal } from "../utils/cancellation"
 
 export class RealTimeCodeProvider
   implements vscode.InlineCompletionItemProvider, vscode.HoverProvider, vscode.CodeActionProvider
@@ -44,14 +45,18 @@ export class RealTimeCodeProvider
         return [new vscode.InlineCompletionItem(cached.completion)]
       }
 
-      // Generate completion
-      const completion = await this.agent.generateInlineCompletion({
-        code: contextCode,
-        language: document.languageId,
-        currentLine: textBeforeCursor,
-        nextLine: textAfterCursor,
-        position: { line: position.line, character: position.character },
-      })
+      // Generate completion, abandoning the request as soon as VS Code cancels this keystroke
+      const completion = await this.agent.generateInlineCompletion(
+        {
+          code: contextCode,
+          language: document.languageId,
+          currentLine: textBeforeCursor,
+          nextLine: textAfterCursor,
+          position: { line: position.line, character: position.character },
+          documentUri: document.uri.toString(),
+        },
+        toAbortSignal(token),
+      )
 
       if (completion && completion.trim()) {
         // Cache the result
@@ -60,7 +65,9 @@ export class RealTimeCodeProvider
         return [new vscode.InlineCompletionItem(completion)]
       }
     } catch (error) {
-      console.error("[v0] Inline completion error:", error)
+      if (!isAbortError(error)) {
+        console.error("[v0] Inline completion error:", error)
+      }
     }
 
     return []
@@ -89,12 +96,16 @@ export class RealTimeCodeProvider
       const contextRange = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length)
       const contextCode = document.getText(contextRange)
 
-      const explanation = await this.agent.explainCodeElement({
-        element: word,
-        context: contextCode,
-        language: document.languageId,
-        line: line.text,
-      })
+      const explanation = await this.agent.explainCodeElement(
+        {
+          element: word,
+          context: contextCode,
+          language: document.languageId,
+          line: line.text,
+          documentUri: document.uri.toString(),
+        },
+        toAbortSignal(token),
+      )
 
       if (explanation) {
         const markdown = new vscode.MarkdownString()
@@ -103,7 +114,9 @@ export class RealTimeCodeProvider
         return new vscode.Hover(markdown, wordRange)
       }
     } catch (error) {
-      console.error("[v0] Hover provider error:", error)
+      if (!isAbortError(error)) {
+        console.error("[v0] Hover provider error:", error)
+      }
     }
 
     return undefined
@@ -0,0 +1,93 @@
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { StreamCollector } from "./streamEvents"
+import { embedWith } from "./embeddings"
+import { FixtureStore } from "../utils/fixtureStore"
+import { DEFAULT_CONTEXT_WINDOW } from "../utils/tokenBudget"
+import type { ProviderLog } from "../utils/providerLog"
+
+// While "pyr-dev.fixtures.record" is on, writes every answered request to the fixture directory so that the
+// replay provider can serve it later without network access. Only successful, complete answers are recorded.
+export class RecordingProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly store: FixtureStore,
+    private readonly providerId: string,
+    private readonly log?: ProviderLog,
+  ) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const response = await this.inner.generateResponse(messages, options)
+    if (this.store.isRecording()) {
+      await this.record(messages, options, response)
+    }
+    return response
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    if (!this.store.isRecording()) {
+      yield* this.inner.generateStreamResponse(messages, options)
+      return
+    }
+
+    const events: LLMStreamEvent[] = []
+    const collected = new StreamCollector()
+    for await (const event of this.inner.generateStreamResponse(messages, options)) {
+      events.push(event)
+      collected.add(event)
+      yield event
+    }
+    await this.record(messages, options, collected.toResponse(), events)
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName()
+  }
+
+  getContextWindow(model?: string): number {
+    return this.inner.getContextWindow?.(model) ?? DEFAULT_CONTEXT_WINDOW
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.inner.supportsEmbeddings?.() ?? false
+  }
+
+  // Embeddings are not recorded, so the replay provider cannot serve them
+  embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    return embedWith(this.inner, texts, options)
+  }
+
+  private async record(
+    messages: LLMMessage[],
+    options: LLMOptions,
+    response: LLMResponse,
+    events?: LLMStreamEvent[],
+  ): Promise<void> {
+    const key = FixtureStore.createKey(messages, options)
+
+    try {
+      await this.store.set({
+        key,
+        recordedAt: new Date().toISOString(),
+        provider: this.providerId,
+        request: { messages, options: FixtureStore.keyOptions(options) },
+        response,
+        events,
+      })
+    } catch (error) {
+      // The answer itself is fine, so a failed recording must not fail the request
+      this.log?.logError(`Recording fixture ${key} failed`, error)
+    }
+  }
+}
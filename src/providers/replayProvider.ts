@@ -0,0 +1,76 @@
+import type { LLMProvider, LLMMessage, LLMResponse, LLMOptions, LLMConnectionInfo, LLMStreamEvent } from "./llmProvider"
+import { LLMFatalError } from "./providerErrors"
+import { getMessageText } from "./messageContent"
+import { toStreamEvents } from "./streamEvents"
+import { FixtureStore, type Fixture } from "../utils/fixtureStore"
+import { getContextWindow } from "../utils/tokenBudget"
+
+const PROVIDER_NAME = "Replay"
+
+// Answers from recorded fixtures only and never touches the network. A request without a fixture is an error
+// rather than a fallback, so that a test run against fixtures cannot silently drift from what was recorded.
+export class ReplayProvider implements LLMProvider {
+  constructor(private readonly store: FixtureStore) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const fixture = await this.load(messages, options)
+    return fixture.response
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const fixture = await this.load(messages, options)
+    if (fixture.events) {
+      yield* fixture.events
+    } else if (fixture.chunks) {
+      yield* fixture.chunks.map((text): LLMStreamEvent => ({ type: "text", text }))
+      yield { type: "finish", reason: fixture.response.finishReason ?? "stop" }
+    } else {
+      yield* toStreamEvents(fixture.response)
+    }
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  getProviderName(): string {
+    return PROVIDER_NAME
+  }
+
+  // Recording used the real model's window; replays only see the same prompts when "pyr-dev.contextWindow" matches it
+  getContextWindow(model?: string): number {
+    return getContextWindow(model || "")
+  }
+
+  getConnectionInfo(): LLMConnectionInfo {
+    return { endpoint: this.store.getDirectory().fsPath }
+  }
+
+  private async load(messages: LLMMessage[], options: LLMOptions): Promise<Fixture> {
+    const key = FixtureStore.createKey(messages, options)
+
+    let fixture: Fixture | undefined
+    try {
+      fixture = await this.store.get(key)
+    } catch (error: any) {
+      throw new LLMFatalError(
+        `Fixture ${key}.json could not be read: ${error.message}`,
+        PROVIDER_NAME,
+        undefined,
+        error,
+      )
+    }
+
+    if (!fixture) {
+      const lastUser = [...messages].reverse().find((message) => message.role === "user")
+      const excerpt = lastUser ? getMessageText(lastUser.content).slice(0, 80).replace(/\s+/g, " ") : ""
+      throw new LLMFatalError(
+        `No recorded response for this request (expected ${this.store.getFile(key).fsPath}, last user message ` +
+          `"${excerpt}"). Record it with "pyr-dev.fixtures.record" enabled against a real provider.`,
+        PROVIDER_NAME,
+      )
+    }
+
+    return fixture
+  }
+}
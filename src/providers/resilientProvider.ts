@@ -0,0 +1,134 @@
+import * as vscode from "vscode"
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { embedWith } from "./embeddings"
+import { classifyProviderError, type LLMProviderError } from "./providerErrors"
+import { isAbortError, sleep } from "../utils/cancellation"
+import { DEFAULT_CONTEXT_WINDOW } from "../utils/tokenBudget"
+import type { ProviderLog } from "../utils/providerLog"
+
+interface RetryPolicy {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+// Wraps any provider with error classification and jittered exponential backoff.
+// Rate-limit and transient failures are retried, honoring Retry-After when the server sends one.
+export class ResilientProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly log?: ProviderLog,
+  ) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const policy = this.getRetryPolicy()
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.inner.generateResponse(messages, options)
+      } catch (error) {
+        await this.handleFailure(error, attempt, policy, options.signal)
+      }
+    }
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const policy = this.getRetryPolicy()
+
+    for (let attempt = 0; ; attempt++) {
+      let yielded = false
+
+      try {
+        for await (const event of this.inner.generateStreamResponse(messages, options)) {
+          yielded = true
+          yield event
+        }
+        return
+      } catch (error) {
+        // Once output has reached the caller a retry would duplicate it, so only retry before the first event
+        if (yielded) {
+          throw isAbortError(error, options.signal) ? error : classifyProviderError(error, this.getProviderName())
+        }
+        await this.handleFailure(error, attempt, policy, options.signal)
+      }
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName()
+  }
+
+  getContextWindow(model?: string): number {
+    return this.inner.getContextWindow?.(model) ?? DEFAULT_CONTEXT_WINDOW
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.inner.supportsEmbeddings?.() ?? false
+  }
+
+  async embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    const policy = this.getRetryPolicy()
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await embedWith(this.inner, texts, options)
+      } catch (error) {
+        await this.handleFailure(error, attempt, policy, options.signal)
+      }
+    }
+  }
+
+  getInnerProvider(): LLMProvider {
+    return this.inner
+  }
+
+  // Throws when the failure should not be retried, otherwise waits out the backoff delay
+  private async handleFailure(error: unknown, attempt: number, policy: RetryPolicy, signal?: AbortSignal) {
+    if (isAbortError(error, signal)) {
+      throw error
+    }
+
+    const providerError = classifyProviderError(error, this.getProviderName())
+    if (!providerError.isRetryable || attempt >= policy.maxRetries) {
+      throw providerError
+    }
+
+    const delay = this.getDelay(providerError, attempt, policy)
+    this.log?.logWarning(
+      `${this.getProviderName()} request failed (${providerError.kind}), retrying in ${delay}ms ` +
+        `(attempt ${attempt + 1}/${policy.maxRetries})`,
+    )
+    await sleep(delay, signal)
+  }
+
+  private getDelay(error: LLMProviderError, attempt: number, policy: RetryPolicy): number {
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, policy.maxDelayMs)
+    }
+
+    // Full jitter: a random delay between 0 and the exponential ceiling
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+    return Math.round(Math.random() * ceiling)
+  }
+
+  private getRetryPolicy(): RetryPolicy {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return {
+      maxRetries: config.get<number>("retry.maxRetries", 3),
+      baseDelayMs: config.get<number>("retry.baseDelayMs", 1000),
+      maxDelayMs: config.get<number>("retry.maxDelayMs", 30000),
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { embedWith } from "./embeddings"
+import type { RequestScheduler } from "../utils/requestScheduler"
+import { DEFAULT_CONTEXT_WINDOW } from "../utils/tokenBudget"
+
+// Waits for a slot from the shared scheduler before each request. A stream keeps its slot until it ends.
+export class ScheduledProvider implements LLMProvider {
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly scheduler: RequestScheduler,
+    private readonly providerId: string,
+  ) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const release = await this.scheduler.acquire(this.providerId, options)
+    try {
+      return await this.inner.generateResponse(messages, options)
+    } finally {
+      release()
+    }
+  }
+
+  async *generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    const release = await this.scheduler.acquire(this.providerId, options)
+    try {
+      yield* this.inner.generateStreamResponse(messages, options)
+    } finally {
+      release()
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName()
+  }
+
+  getContextWindow(model?: string): number {
+    return this.inner.getContextWindow?.(model) ?? DEFAULT_CONTEXT_WINDOW
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.inner.supportsEmbeddings?.() ?? false
+  }
+
+  // All batches of one call share a slot
+  async embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    const release = await this.scheduler.acquire(this.providerId, { capability: "embed", ...options })
+    try {
+      return await embedWith(this.inner, texts, options)
+    } finally {
+      release()
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import type { LLMFinishReason, LLMResponse, LLMStreamEvent, LLMToolCall, LLMUsage } from "./llmProvider"
+
+// Builds the complete response from a stream's events, for wrappers that store or meter what was streamed
+export class StreamCollector {
+  content = ""
+  finishReason: LLMFinishReason | undefined
+  usage: LLMUsage | undefined
+  private toolCalls = new Map<number, { id?: string; name?: string; arguments: string }>()
+
+  add(event: LLMStreamEvent): void {
+    switch (event.type) {
+      case "text":
+        this.content += event.text
+        break
+      case "toolCall": {
+        const call = this.toolCalls.get(event.index) ?? { arguments: "" }
+        call.id ??= event.id
+        call.name ??= event.name
+        call.arguments += event.argumentsDelta
+        this.toolCalls.set(event.index, call)
+        break
+      }
+      case "finish":
+        this.finishReason = event.reason
+        break
+      case "usage":
+        this.usage = event.usage
+        break
+    }
+  }
+
+  toResponse(): LLMResponse {
+    const toolCalls: LLMToolCall[] = [...this.toolCalls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, call]) => ({
+        id: call.id ?? `call_${index}`,
+        name: call.name ?? "",
+        arguments: parseArguments(call.name ?? "", call.arguments),
+      }))
+
+    return {
+      content: this.content,
+      toolCalls: toolCalls.length ? toolCalls : undefined,
+      finishReason: this.finishReason,
+      usage: this.usage,
+    }
+  }
+}
+
+// Replays a stored response as a stream. Usage is left out: nothing was spent on this request.
+export function toStreamEvents(response: LLMResponse): LLMStreamEvent[] {
+  const events: LLMStreamEvent[] = response.content ? [{ type: "text", text: response.content }] : []
+
+  response.toolCalls?.forEach((call, index) => {
+    events.push({
+      type: "toolCall",
+      index,
+      id: call.id,
+      name: call.name,
+      argumentsDelta: JSON.stringify(call.arguments),
+    })
+  })
+  events.push({ type: "finish", reason: response.finishReason ?? "stop" })
+
+  return events
+}
+
+function parseArguments(name: string, rawArguments: string): Record<string, any> {
+  try {
+    return rawArguments ? JSON.parse(rawArguments) : {}
+  } catch {
+    throw new Error(`Model streamed invalid JSON arguments for tool "${name}"`)
+  }
+}
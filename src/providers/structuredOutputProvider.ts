@@ -0,0 +1,124 @@
+import Ajv, { type ValidateFunction } from "ajv"
+import type {
+  LLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMOptions,
+  LLMEmbeddingOptions,
+  LLMEmbeddingResponse,
+  LLMResponseFormat,
+  LLMStreamEvent,
+} from "./llmProvider"
+import { LLMSchemaError } from "./providerErrors"
+import { embedWith } from "./embeddings"
+import { DEFAULT_CONTEXT_WINDOW } from "../utils/tokenBudget"
+
+// Re-prompts after the first invalid reply before giving up
+const MAX_REPAIR_ATTEMPTS = 2
+
+const ajv = new Ajv({ allErrors: true, strict: false })
+const validators = new WeakMap<Record<string, any>, ValidateFunction>()
+
+// Validates replies to requests with a responseFormat and feeds validation errors back to the model until it
+// produces matching JSON. Plain requests pass straight through.
+export class StructuredOutputProvider implements LLMProvider {
+  constructor(private readonly inner: LLMProvider) {}
+
+  async generateResponse(messages: LLMMessage[], options: LLMOptions = {}): Promise<LLMResponse> {
+    const format = options.responseFormat
+    if (!format) {
+      return this.inner.generateResponse(messages, options)
+    }
+
+    let conversation = messages
+    let errors: string[] = []
+    let response: LLMResponse | undefined
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      response = await this.inner.generateResponse(conversation, options)
+
+      const result = validateResponse(response.content, format)
+      if (result.valid) {
+        return { ...response, parsed: result.value }
+      }
+
+      errors = result.errors
+      conversation = [
+        ...messages,
+        { role: "assistant", content: response.content },
+        {
+          role: "user",
+          content:
+            `Your reply does not match the required JSON schema "${format.name}":\n` +
+            errors.map((error) => `- ${error}`).join("\n") +
+            "\nReply again with only the corrected JSON, without explanations or code fences.",
+        },
+      ]
+    }
+
+    throw new LLMSchemaError(
+      `${this.getProviderName()} did not return valid "${format.name}" JSON after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ` +
+        errors.join("; "),
+      this.getProviderName(),
+      errors,
+      response?.content ?? "",
+    )
+  }
+
+  generateStreamResponse(messages: LLMMessage[], options: LLMOptions = {}): AsyncIterable<LLMStreamEvent> {
+    return this.inner.generateStreamResponse(messages, options)
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured()
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName()
+  }
+
+  getContextWindow(model?: string): number {
+    return this.inner.getContextWindow?.(model) ?? DEFAULT_CONTEXT_WINDOW
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.inner.supportsEmbeddings?.() ?? false
+  }
+
+  embed(texts: string[], options: LLMEmbeddingOptions = {}): Promise<LLMEmbeddingResponse> {
+    return embedWith(this.inner, texts, options)
+  }
+}
+
+export function validateResponse(
+  content: string,
+  format: LLMResponseFormat,
+): { valid: true; value: any } | { valid: false; errors: string[] } {
+  let value: any
+  try {
+    value = JSON.parse(stripCodeFence(content))
+  } catch (error: any) {
+    return { valid: false, errors: [`the reply is not valid JSON (${error.message})`] }
+  }
+
+  let validate = validators.get(format.schema)
+  if (!validate) {
+    validate = ajv.compile(format.schema)
+    validators.set(format.schema, validate)
+  }
+
+  if (validate(value)) {
+    return { valid: true, value }
+  }
+
+  return {
+    valid: false,
+    errors: (validate.errors ?? []).map((error) => `${error.instancePath || "/"} ${error.message ?? "is invalid"}`),
+  }
+}
+
+// Models without native JSON mode tend to wrap the JSON in a markdown code block
+function stripCodeFence(content: string): string {
+  const match = /^\s*```(?:json)?\s*\n([\s\S]*?)\n?```\s*$/.exec(content)
+  return match ? match[1] : content.trim()
+}
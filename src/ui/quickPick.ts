@@ -1,6 +1,7 @@
 import * as vscode from "vscode"
 import type { PyrDevAgent } from "../agent/pyrDevAgent"
 import type { CodeIssue } from "../analyzer/codeAnalyzer"
+import { ProviderRegistry, type ProviderDescriptor } from "../providers/providerRegistry"
 
 export class QuickPickManager {
   private agent: PyrDevAgent
@@ -31,10 +32,30 @@ export class QuickPickManager {
         description: "Generate code from natural language description",
         detail: "Describe what you want and let AI write the code",
       },
+      {
+        label: "$(split-horizontal) Compare Providers",
+        description: "Ask every configured provider the same question",
+        detail: "Explain, refactor or generate side by side with latency and tokens, then apply the best answer",
+      },
+      {
+        label: "$(key) Set API Key",
+        description: "Store a provider API key securely",
+        detail: "Keys are kept in the OS keychain, not in settings.json",
+      },
+      {
+        label: "$(pulse) Test Connections",
+        description: "Check every configured provider",
+        detail: "Reports DNS, TLS, authentication and model problems, latency and streaming",
+      },
+      {
+        label: "$(output) Show Provider Log",
+        description: "Open the Pyr Dev output channel",
+        detail: "Every provider call with its latency and tokens, secrets redacted",
+      },
       {
         label: "$(gear) Settings",
         description: "Configure Pyr Dev settings",
-        detail: "Set up API keys and preferences",
+        detail: "Set up endpoints, models and preferences",
       },
     ]
 
@@ -59,34 +80,45 @@ export class QuickPickManager {
       case "$(add) Generate Code":
         vscode.commands.executeCommand("pyr-dev.generateCode")
         break
+      case "$(split-horizontal) Compare Providers":
+        vscode.commands.executeCommand("pyr-dev.compareProviders")
+        break
+      case "$(key) Set API Key":
+        vscode.commands.executeCommand("pyr-dev.setApiKey")
+        break
+      case "$(pulse) Test Connections":
+        vscode.commands.executeCommand("pyr-dev.testConnection")
+        break
+      case "$(output) Show Provider Log":
+        vscode.commands.executeCommand("pyr-dev.showLog")
+        break
       case "$(gear) Settings":
         vscode.commands.executeCommand("pyr-dev.openSettings")
         break
     }
   }
 
-  async showProviderSelection(): Promise<string | undefined> {
-    const items: vscode.QuickPickItem[] = [
-      {
-        label: "$(cloud) Azure OpenAI",
-        description: "Use Azure OpenAI (GPT-4, GPT-3.5)",
-        detail: "Microsoft's Azure OpenAI service",
-      },
-      {
-        label: "$(sparkle) Google Gemini",
-        description: "Use Google Gemini Pro",
-        detail: "Google's advanced AI model",
-      },
-    ]
+  async showProviderSelection(
+    placeHolder = "Select LLM Provider",
+    filter: (descriptor: ProviderDescriptor) => boolean = () => true,
+  ): Promise<string | undefined> {
+    const registry = ProviderRegistry.getInstance()
+    const items: (vscode.QuickPickItem & { providerId: string })[] = registry
+      .getAll()
+      .filter(filter)
+      .map((descriptor) => ({
+        label: `${descriptor.icon} ${descriptor.displayName}`,
+        description: descriptor.description,
+        detail: registry.isConfigured(descriptor.id) ? descriptor.detail : `${descriptor.detail} (not configured)`,
+        providerId: descriptor.id,
+      }))
 
     const selected = await vscode.window.showQuickPick(items, {
-      placeHolder: "Select LLM Provider",
+      placeHolder,
       matchOnDescription: true,
     })
 
-    if (!selected) return undefined
-
-    return selected.label.includes("Azure") ? "azure" : "gemini"
+    return selected?.providerId
   }
 
   async showCodeIssuesFix(issues: CodeIssue[]): Promise<CodeIssue[] | undefined> {
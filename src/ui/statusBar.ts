@@ -1,14 +1,21 @@
 import * as vscode from "vscode"
 import type { PyrDevAgent } from "../agent/pyrDevAgent"
 import { ConfigManager } from "../utils/configManager"
+import { ProviderRegistry } from "../providers/providerRegistry"
+import { LLMProviderError, describeProviderError, needsApiKey } from "../providers/providerErrors"
+import type { ProviderAnswerEvent } from "../providers/failoverProvider"
+import type { UsageLedger } from "../utils/usageLedger"
 
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem
   private agent: PyrDevAgent
   private configManager: ConfigManager
+  private lastAnswer: ProviderAnswerEvent | undefined
+  private usageLedger: UsageLedger | undefined
 
-  constructor(agent: PyrDevAgent) {
+  constructor(agent: PyrDevAgent, usageLedger?: UsageLedger) {
     this.agent = agent
+    this.usageLedger = usageLedger
     this.configManager = ConfigManager.getInstance()
     this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100)
     this.updateStatusBar()
@@ -32,13 +39,51 @@ export class StatusBarManager {
       this.statusBarItem.command = "pyr-dev.openSettings"
       this.statusBarItem.backgroundColor = new vscode.ThemeColor("statusBarItem.warningBackground")
     } else {
-      const activeProvider = config.defaultProvider
-      const providerIcon = activeProvider === "azure" ? "$(cloud)" : "$(sparkle)"
+      const registry = ProviderRegistry.getInstance()
+      const activeId = configuredProviders.includes(config.defaultProvider)
+        ? config.defaultProvider
+        : configuredProviders[0]
+      const activeProvider = registry.get(activeId)
 
-      this.statusBarItem.text = `${providerIcon} Pyr Dev: ${activeProvider === "azure" ? "Azure" : "Gemini"}`
-      this.statusBarItem.tooltip = `Pyr Dev is ready with ${activeProvider === "azure" ? "Azure OpenAI" : "Google Gemini"}\nClick to open chat`
+      this.statusBarItem.text = `${activeProvider?.icon ?? "$(robot)"} Pyr Dev: ${activeProvider?.shortName ?? activeId}`
+      this.statusBarItem.tooltip = `Pyr Dev is ready with ${activeProvider?.displayName ?? activeId}\nClick to open chat`
       this.statusBarItem.command = "pyr-dev.askAgent"
       this.statusBarItem.backgroundColor = undefined
+
+      // Show the provider that actually answered the last request when it was not the default one
+      if (this.lastAnswer?.failedOver && this.lastAnswer.primaryProviderId === activeId) {
+        const answeredBy = registry.get(this.lastAnswer.providerId)
+        const answeredName = answeredBy?.shortName ?? this.lastAnswer.providerId
+
+        this.statusBarItem.text = `${answeredBy?.icon ?? "$(robot)"} Pyr Dev: ${answeredName} (failover)`
+        this.statusBarItem.tooltip =
+          `${activeProvider?.displayName ?? activeId} was unavailable, the last request was answered by ` +
+          `${answeredBy?.displayName ?? this.lastAnswer.providerId}\nClick to open chat`
+        this.statusBarItem.backgroundColor = new vscode.ThemeColor("statusBarItem.warningBackground")
+      }
+
+      this.statusBarItem.tooltip += this.getUsageSummary()
+    }
+  }
+
+  private getUsageSummary(): string {
+    if (!this.usageLedger) return ""
+
+    const lines = this.usageLedger.getBudgets().map((status) => {
+      const totals = this.usageLedger!.getTotals(status.period)
+      const label = status.period === "daily" ? "Today" : "This month"
+      const budget = status.budget > 0 ? ` of $${status.budget.toFixed(2)}` : ""
+      return `${label}: $${totals.cost.toFixed(2)}${budget} · ${formatTokens(totals.promptTokens + totals.completionTokens)} tokens`
+    })
+
+    return `\n\n${lines.join("\n")}`
+  }
+
+  public setAnsweringProvider(event: ProviderAnswerEvent) {
+    const changed = this.lastAnswer?.providerId !== event.providerId
+    this.lastAnswer = event
+    if (changed) {
+      this.updateStatusBar()
     }
   }
 
@@ -56,9 +101,20 @@ export class StatusBarManager {
     }, duration)
   }
 
-  public showError(message: string, duration = 5000) {
-    this.statusBarItem.text = `$(error) ${message}`
-    this.statusBarItem.tooltip = message
+  public showError(error: string | LLMProviderError, duration = 5000) {
+    if (error instanceof LLMProviderError) {
+      const { summary, detail } = describeProviderError(error)
+      const icon = error.kind === "auth" ? "$(key)" : error.kind === "rateLimit" ? "$(watch)" : "$(error)"
+
+      this.statusBarItem.text = `${icon} ${summary}`
+      this.statusBarItem.tooltip = detail
+      // Auth failures are fixed with a new key, so make the item a shortcut to entering one, unless the provider
+      // does not use API keys
+      this.statusBarItem.command = needsApiKey(error) ? "pyr-dev.setApiKey" : undefined
+    } else {
+      this.statusBarItem.text = `$(error) ${error}`
+      this.statusBarItem.tooltip = error
+    }
     this.statusBarItem.backgroundColor = new vscode.ThemeColor("statusBarItem.errorBackground")
 
     setTimeout(() => {
@@ -70,3 +126,7 @@ export class StatusBarManager {
     this.statusBarItem.dispose()
   }
 }
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
@@ -0,0 +1,124 @@
+import * as vscode from "vscode"
+import { exec } from "child_process"
+
+export interface BearerTokenSourceOptions {
+  // Shell command printing a token, e.g. "az account get-access-token --resource ... -o json"
+  command?: string
+  // File holding a token, kept fresh by some other process
+  file?: string
+}
+
+interface BearerToken {
+  token: string
+  expiresAt: number
+}
+
+// Fetch a new token this long before the old one expires, so no request starts with a token about to lapse
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+// How long to trust a token that states no expiry and is not a JWT
+const UNKNOWN_EXPIRY_MS = 10 * 60 * 1000
+const COMMAND_TIMEOUT_MS = 30000
+
+// Hands out a bearer token from a credential helper command or a file, and gets a new one shortly before it
+// expires. The helper may print the bare token or JSON as printed by "az account get-access-token".
+export class BearerTokenSource {
+  private current: BearerToken | undefined
+  private pending: Promise<BearerToken> | undefined
+
+  constructor(private readonly options: BearerTokenSourceOptions) {}
+
+  async getToken(): Promise<string> {
+    if (this.current && this.current.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return this.current.token
+    }
+
+    // Concurrent requests share one helper run
+    this.pending ??= this.fetchToken().finally(() => (this.pending = undefined))
+    this.current = await this.pending
+    return this.current.token
+  }
+
+  // For when the server rejects the token before its stated expiry, e.g. after it was revoked
+  invalidate(): void {
+    this.current = undefined
+  }
+
+  private async fetchToken(): Promise<BearerToken> {
+    const output = this.options.command
+      ? await runCommand(this.options.command)
+      : await readTokenFile(this.options.file ?? "")
+
+    const token = parseToken(output)
+    if (!token.token) {
+      const source = this.options.command
+        ? `Token command "${this.options.command}"`
+        : `Token file ${this.options.file}`
+      throw new Error(`${source} returned no token`)
+    }
+    return token
+  }
+}
+
+function runCommand(command: string): Promise<string> {
+  const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+
+  return new Promise((resolve, reject) => {
+    exec(command, { cwd, timeout: COMMAND_TIMEOUT_MS, windowsHide: true }, (error, stdout, stderr) => {
+      if (error) {
+        const detail = stderr.trim() || error.message
+        reject(new Error(`Token command "${command}" failed: ${detail}`))
+      } else {
+        resolve(stdout)
+      }
+    })
+  })
+}
+
+async function readTokenFile(file: string): Promise<string> {
+  try {
+    const data = await vscode.workspace.fs.readFile(vscode.Uri.file(file))
+    return Buffer.from(data).toString("utf8")
+  } catch (error: any) {
+    throw new Error(`Token file ${file} could not be read: ${error.message}`)
+  }
+}
+
+function parseToken(output: string): BearerToken {
+  const text = output.trim()
+
+  if (text.startsWith("{")) {
+    const json = JSON.parse(text)
+    const token = String(json.accessToken ?? json.access_token ?? json.token ?? "")
+    return { token, expiresAt: parseExpiry(json) ?? jwtExpiry(token) ?? Date.now() + UNKNOWN_EXPIRY_MS }
+  }
+
+  return { token: text, expiresAt: jwtExpiry(text) ?? Date.now() + UNKNOWN_EXPIRY_MS }
+}
+
+// Covers the Azure CLI ("expires_on" in epoch seconds, "expiresOn" as a local date) and OAuth ("expires_in")
+function parseExpiry(json: Record<string, any>): number | undefined {
+  if (json.expires_on !== undefined && !isNaN(Number(json.expires_on))) {
+    return Number(json.expires_on) * 1000
+  }
+  if (json.expires_in !== undefined && !isNaN(Number(json.expires_in))) {
+    return Date.now() + Number(json.expires_in) * 1000
+  }
+
+  const date = json.expiresOn ?? json.expiresAt ?? json.expires_at
+  const time = typeof date === "string" ? Date.parse(date) : NaN
+  return isNaN(time) ? undefined : time
+}
+
+function jwtExpiry(token: string): number | undefined {
+  const payload = token.split(".")[1]
+  if (!payload) {
+    return undefined
+  }
+
+  try {
+    const exp = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")).exp
+    return typeof exp === "number" ? exp * 1000 : undefined
+  } catch {
+    return undefined
+  }
+}
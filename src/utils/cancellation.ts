@@ -0,0 +1,48 @@
+import * as vscode from "vscode"
+
+// Bridges a VS Code CancellationToken to an AbortSignal that fetch-based SDK clients understand
+export function toAbortSignal(token: vscode.CancellationToken): AbortSignal {
+  const controller = new AbortController()
+
+  if (token.isCancellationRequested) {
+    controller.abort()
+  } else {
+    const listener = token.onCancellationRequested(() => {
+      controller.abort()
+      listener.dispose()
+    })
+  }
+
+  return controller.signal
+}
+
+export function isAbortError(error: any, signal?: AbortSignal): boolean {
+  return !!signal?.aborted || error?.name === "AbortError" || error?.name === "APIUserAbortError"
+}
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+export function abortError(message = "Request cancelled"): Error {
+  const error = new Error(message)
+  error.name = "AbortError"
+  return error
+}
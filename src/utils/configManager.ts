@@ -1,20 +1,21 @@
 import * as vscode from "vscode"
+import { ProviderRegistry } from "../providers/providerRegistry"
 
 export interface PyrDevConfig {
-  azureOpenAI: {
-    apiKey: string
-    endpoint: string
-    deploymentName: string
-  }
-  gemini: {
-    apiKey: string
-    model: string
-  }
-  defaultProvider: "azure" | "gemini"
+  // Settings of every registered provider, keyed by provider id and then by setting key
+  providers: Record<string, Record<string, string>>
+  defaultProvider: string
   autoSuggest: boolean
   maxTokens: number
 }
 
+// Reads a "pyr-dev" setting from user settings only, ignoring workspace and folder values. For settings that run a
+// command or read a file on this machine, which a cloned repository's .vscode/settings.json must not choose.
+export function getUserSetting<T>(key: string, defaultValue: T): T {
+  const inspected = vscode.workspace.getConfiguration("pyr-dev").inspect<T>(key)
+  return inspected?.globalValue ?? defaultValue
+}
+
 export class ConfigManager {
   private static instance: ConfigManager
   private config: vscode.WorkspaceConfiguration
@@ -35,17 +36,16 @@ export class ConfigManager {
   }
 
   getConfig(): PyrDevConfig {
+    const registry = ProviderRegistry.getInstance()
+    const providers: Record<string, Record<string, string>> = {}
+
+    for (const id of registry.getIds()) {
+      providers[id] = registry.getSettings(id)
+    }
+
     return {
-      azureOpenAI: {
-        apiKey: this.config.get<string>("azureOpenAI.apiKey", ""),
-        endpoint: this.config.get<string>("azureOpenAI.endpoint", ""),
-        deploymentName: this.config.get<string>("azureOpenAI.deploymentName", "gpt-4"),
-      },
-      gemini: {
-        apiKey: this.config.get<string>("gemini.apiKey", ""),
-        model: this.config.get<string>("gemini.model", "gemini-pro"),
-      },
-      defaultProvider: this.config.get<"azure" | "gemini">("defaultProvider", "azure"),
+      providers,
+      defaultProvider: this.config.get<string>("defaultProvider", "azure"),
       autoSuggest: this.config.get<boolean>("autoSuggest", true),
       maxTokens: this.config.get<number>("maxTokens", 4000),
     }
@@ -56,53 +56,43 @@ export class ConfigManager {
     this.refresh()
   }
 
-  isProviderConfigured(provider: "azure" | "gemini"): boolean {
-    const config = this.getConfig()
-
-    if (provider === "azure") {
-      return !!(config.azureOpenAI.apiKey && config.azureOpenAI.endpoint)
-    } else {
-      return !!config.gemini.apiKey
-    }
+  isProviderConfigured(provider: string): boolean {
+    return ProviderRegistry.getInstance().isConfigured(provider)
   }
 
-  getConfiguredProviders(): ("azure" | "gemini")[] {
-    const providers: ("azure" | "gemini")[] = []
-
-    if (this.isProviderConfigured("azure")) {
-      providers.push("azure")
-    }
-
-    if (this.isProviderConfigured("gemini")) {
-      providers.push("gemini")
-    }
-
-    return providers
+  getConfiguredProviders(): string[] {
+    return ProviderRegistry.getInstance().getConfiguredIds()
   }
 
   async validateConfiguration(): Promise<{ isValid: boolean; errors: string[] }> {
     const errors: string[] = []
+    const registry = ProviderRegistry.getInstance()
     const configuredProviders = this.getConfiguredProviders()
 
     if (configuredProviders.length === 0) {
-      errors.push("No LLM providers are configured. Please add API keys for Azure OpenAI or Google Gemini.")
+      const providerNames = registry.getAll().map((descriptor) => descriptor.displayName)
+      errors.push(`No LLM providers are configured. Please configure one of: ${providerNames.join(", ")}.`)
     }
 
-    const config = this.getConfig()
+    // Validate every provider the user has started to configure
+    for (const id of registry.getIds()) {
+      errors.push(...registry.validate(id))
+    }
 
-    // Validate Azure OpenAI config if provided
-    if (config.azureOpenAI.apiKey || config.azureOpenAI.endpoint) {
-      if (!config.azureOpenAI.apiKey) {
-        errors.push("Azure OpenAI API key is missing")
-      }
-      if (!config.azureOpenAI.endpoint) {
-        errors.push("Azure OpenAI endpoint is missing")
-      }
-      if (!config.azureOpenAI.endpoint.startsWith("https://")) {
-        errors.push("Azure OpenAI endpoint must be a valid HTTPS URL")
+    // Validate capability routes
+    const routes = this.config.get<Record<string, { provider?: string }>>("routing", {})
+    for (const [capability, route] of Object.entries(routes)) {
+      if (route?.provider && !registry.has(route.provider)) {
+        errors.push(`Routing for "${capability}" uses unknown provider "${route.provider}"`)
+      } else if (route?.provider && !registry.isConfigured(route.provider)) {
+        errors.push(
+          `Routing for "${capability}" uses ${registry.get(route.provider)?.displayName}, which is not configured`,
+        )
       }
     }
 
+    const config = this.getConfig()
+
     // Validate max tokens
     if (config.maxTokens < 100 || config.maxTokens > 32000) {
       errors.push("Max tokens must be between 100 and 32000")
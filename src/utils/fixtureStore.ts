@@ -0,0 +1,90 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import type { LLMMessage, LLMOptions, LLMResponse, LLMStreamEvent } from "../providers/llmProvider"
+import { normalizeMessages } from "../providers/messageContent"
+import { ResponseCache } from "./responseCache"
+
+export interface Fixture {
+  key: string
+  recordedAt: string
+  // Id of the provider that answered while recording
+  provider: string
+  request: { messages: LLMMessage[]; options: Record<string, unknown> }
+  response: LLMResponse
+  // Set when recorded from a stream, so that replays stream the same events
+  events?: LLMStreamEvent[]
+  // Text chunks of streams recorded before streams had typed events
+  chunks?: string[]
+}
+
+export const DEFAULT_FIXTURE_DIRECTORY = ".pyr-dev/fixtures"
+
+// Recorded request/response pairs, one JSON file per request hash, meant to be checked in next to the code that
+// replays them. Relative directories resolve against the first workspace folder.
+export class FixtureStore {
+  // Leaves out the provider and model, so fixtures recorded against any provider replay under "replay"
+  static createKey(messages: LLMMessage[], options: LLMOptions): string {
+    return ResponseCache.createKey({ messages: normalizeMessages(messages), options: FixtureStore.keyOptions(options) })
+  }
+
+  static keyOptions(options: LLMOptions): Record<string, unknown> {
+    return {
+      maxTokens: options.maxTokens ?? null,
+      temperature: options.temperature ?? null,
+      topP: options.topP ?? null,
+      stop: options.stop ?? null,
+      seed: options.seed ?? null,
+      presencePenalty: options.presencePenalty ?? null,
+      frequencyPenalty: options.frequencyPenalty ?? null,
+      n: options.n ?? null,
+      tools: options.tools ?? null,
+      toolChoice: options.toolChoice ?? null,
+      responseFormat: options.responseFormat ?? null,
+    }
+  }
+
+  isRecording(): boolean {
+    return vscode.workspace.getConfiguration("pyr-dev").get<boolean>("fixtures.record", false)
+  }
+
+  getDirectory(): vscode.Uri {
+    const configured =
+      vscode.workspace.getConfiguration("pyr-dev").get<string>("fixtures.directory") || DEFAULT_FIXTURE_DIRECTORY
+
+    if (path.isAbsolute(configured)) {
+      return vscode.Uri.file(configured)
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]
+    if (!folder) {
+      throw new Error(`Open a workspace folder or make "pyr-dev.fixtures.directory" an absolute path`)
+    }
+    return vscode.Uri.joinPath(folder.uri, configured)
+  }
+
+  async get(key: string): Promise<Fixture | undefined> {
+    let data: Uint8Array
+    try {
+      data = await vscode.workspace.fs.readFile(this.getFile(key))
+    } catch (error) {
+      if (error instanceof vscode.FileSystemError && error.code === "FileNotFound") {
+        return undefined
+      }
+      throw error
+    }
+
+    return JSON.parse(Buffer.from(data).toString("utf8")) as Fixture
+  }
+
+  async set(fixture: Fixture): Promise<void> {
+    await vscode.workspace.fs.createDirectory(this.getDirectory())
+    await vscode.workspace.fs.writeFile(
+      this.getFile(fixture.key),
+      Buffer.from(JSON.stringify(fixture, null, 2) + "\n", "utf8"),
+    )
+  }
+
+  getFile(key: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.getDirectory(), `${key}.json`)
+  }
+}
@@ -0,0 +1,57 @@
+import * as vscode from "vscode"
+import * as path from "path"
+import type { LLMImagePart } from "../providers/llmProvider"
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+}
+
+// Azure OpenAI and Gemini both reject inline images above 20 MB
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024
+const MAX_PICKER_FILES = 1000
+
+export async function pickWorkspaceImages(): Promise<vscode.Uri[]> {
+  const extensions = Object.keys(IMAGE_MIME_TYPES).map((extension) => extension.slice(1))
+  const files = await vscode.workspace.findFiles(
+    `**/*.{${extensions.join(",")}}`,
+    "**/node_modules/**",
+    MAX_PICKER_FILES,
+  )
+
+  if (files.length === 0) {
+    vscode.window.showInformationMessage("No PNG, JPEG, GIF or WebP images found in the workspace")
+    return []
+  }
+
+  const items = files
+    .map((uri) => ({ label: path.basename(uri.fsPath), description: vscode.workspace.asRelativePath(uri), uri }))
+    .sort((a, b) => a.description.localeCompare(b.description))
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select images to attach to your next message",
+    canPickMany: true,
+    matchOnDescription: true,
+  })
+
+  return selected?.map((item) => item.uri) ?? []
+}
+
+export async function readImagePart(uri: vscode.Uri): Promise<LLMImagePart> {
+  const name = path.basename(uri.fsPath)
+  const mimeType = IMAGE_MIME_TYPES[path.extname(name).toLowerCase()]
+  if (!mimeType) {
+    throw new Error(`${name} is not a PNG, JPEG, GIF or WebP image`)
+  }
+
+  const stat = await vscode.workspace.fs.stat(uri)
+  if (stat.size > MAX_IMAGE_BYTES) {
+    throw new Error(`${name} is larger than the 20 MB providers accept`)
+  }
+
+  const data = await vscode.workspace.fs.readFile(uri)
+  return { type: "image", mimeType, data: Buffer.from(data).toString("base64"), name }
+}
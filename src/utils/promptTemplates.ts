@@ -1,3 +1,5 @@
+import type { LLMSamplingOptions } from "../providers/llmProvider"
+
 export class PromptTemplates {
   static readonly SYSTEM_PROMPT =
     `You are Pyr Dev, an advanced AI code assistant. You help developers write, debug, and improve code.
@@ -38,7 +40,9 @@ Code Language: {language}
 Code:
 {code}
 
-Provide a structured analysis with specific recommendations.`
+Reply with a JSON object only: a "summary" of the overall analysis with your recommendations, and an "issues" array
+where each issue has a "severity", a "category", the 1-based "line" it occurs on, a "message" and, where possible,
+a "suggestion" describing the fix.`
 
   static readonly CODE_FIX_PROMPT = `Fix the following issues in the code:
 Issues: {issues}
@@ -136,6 +140,27 @@ Code:
 
 Add appropriate comments explaining the purpose, logic, and important details. Keep comments concise and meaningful.`
 
+  // Sampling each template works best with. Code that replaces the user's code is sampled close to greedily;
+  // explanations get more room. Options passed with a request still take precedence.
+  static readonly SAMPLING_OPTIONS: ReadonlyMap<string, LLMSamplingOptions> = new Map<string, LLMSamplingOptions>([
+    [PromptTemplates.CODE_ANALYSIS_PROMPT, { temperature: 0 }],
+    [PromptTemplates.CODE_FIX_PROMPT, { temperature: 0.2 }],
+    [PromptTemplates.CODE_EXPLANATION_PROMPT, { temperature: 0.5 }],
+    [PromptTemplates.CODE_GENERATION_PROMPT, { temperature: 0.4 }],
+    [PromptTemplates.CHAIN_TASK_PROMPT, { temperature: 0.3 }],
+    // A completion should end with the block it completes
+    [PromptTemplates.INLINE_COMPLETION_PROMPT, { temperature: 0.1, stop: ["\n\n\n"] }],
+    [PromptTemplates.CODE_ELEMENT_EXPLANATION_PROMPT, { temperature: 0.3, maxTokens: 500 }],
+    [PromptTemplates.QUICK_FIX_PROMPT, { temperature: 0.1 }],
+    [PromptTemplates.REFACTOR_PROMPT, { temperature: 0.3 }],
+    [PromptTemplates.OPTIMIZE_PROMPT, { temperature: 0.2 }],
+    [PromptTemplates.ADD_COMMENTS_PROMPT, { temperature: 0.2 }],
+  ])
+
+  static getSamplingOptions(template: string): LLMSamplingOptions {
+    return PromptTemplates.SAMPLING_OPTIONS.get(template) ?? {}
+  }
+
   static formatPrompt(template: string, variables: Record<string, string>): string {
     let formatted = template
     for (const [key, value] of Object.entries(variables)) {
@@ -0,0 +1,110 @@
+import * as vscode from "vscode"
+import type { LLMEmbeddingResponse, LLMMessage, LLMResponse } from "../providers/llmProvider"
+import { getMessageText } from "../providers/messageContent"
+import { SecretManager } from "./secretManager"
+import { redactSecrets } from "./redaction"
+
+// "errors" logs failed calls only, "requests" one line per call, "full" adds prompts and responses
+export type ProviderLogLevel = "off" | "errors" | "requests" | "full"
+
+export interface ProviderCallEntry {
+  providerId: string
+  model: string
+  capability: string
+  stream: boolean
+  durationMs: number
+  messages: LLMMessage[]
+  // Set for completed calls; for a stream, what was received
+  response?: LLMResponse | LLMEmbeddingResponse
+  error?: unknown
+  cancelled?: boolean
+}
+
+// The "Pyr Dev" output channel. Everything written goes through redaction first: the stored API keys by value,
+// bearer tokens and other credentials by shape.
+export class ProviderLog implements vscode.Disposable {
+  private readonly channel = vscode.window.createOutputChannel("Pyr Dev", { log: true })
+
+  getLevel(): ProviderLogLevel {
+    return vscode.workspace.getConfiguration("pyr-dev").get<ProviderLogLevel>("log.level", "requests")
+  }
+
+  logCall(entry: ProviderCallEntry): void {
+    const level = this.getLevel()
+    const failed = !!entry.error && !entry.cancelled
+    if (level === "off" || (level === "errors" && !failed)) {
+      return
+    }
+
+    const summary = `${entry.capability} ${entry.providerId}/${entry.model || "-"}${entry.stream ? " (stream)" : ""}`
+    if (failed) {
+      this.channel.error(this.redact(`${summary} failed after ${entry.durationMs} ms: ${describeError(entry.error)}`))
+    } else if (entry.cancelled) {
+      this.channel.info(this.redact(`${summary} cancelled after ${entry.durationMs} ms`))
+    } else {
+      this.channel.info(this.redact(`${summary} ${entry.durationMs} ms, ${describeResponse(entry.response)}`))
+    }
+
+    if (level === "full") {
+      this.channel.info(this.redact(formatTranscript(entry.messages, entry.response)))
+    }
+  }
+
+  // For failures outside a provider call, e.g. a failover or a cache write. Logged unless logging is off.
+  logError(message: string, error: unknown): void {
+    if (this.getLevel() !== "off") {
+      this.channel.error(this.redact(`${message}: ${describeError(error)}`))
+    }
+  }
+
+  // For retries and fallbacks that recover on their own. Logged unless logging is off.
+  logWarning(message: string): void {
+    if (this.getLevel() !== "off") {
+      this.channel.warn(this.redact(message))
+    }
+  }
+
+  show(): void {
+    this.channel.show(true)
+  }
+
+  dispose(): void {
+    this.channel.dispose()
+  }
+
+  private redact(text: string): string {
+    const secrets = SecretManager.getInstance()
+    return redactSecrets(
+      text,
+      secrets.getSecretKeys().map((key) => secrets.get(key)),
+    )
+  }
+}
+
+function describeResponse(response?: LLMResponse | LLMEmbeddingResponse): string {
+  const usage = response?.usage
+  const tokens = usage ? `${usage.promptTokens} + ${usage.completionTokens} tokens` : "usage not reported"
+  if (response && "embeddings" in response) {
+    return `${response.embeddings.length} embeddings, ${tokens}`
+  }
+  return response?.finishReason ? `${tokens}, finished with "${response.finishReason}"` : tokens
+}
+
+function describeError(error: any): string {
+  const kind = error?.kind ? `${error.kind} error` : (error?.name ?? "Error")
+  return `${kind}${error?.status ? ` (HTTP ${error.status})` : ""}: ${error?.message ?? String(error)}`
+}
+
+function formatTranscript(messages: LLMMessage[], response?: LLMResponse | LLMEmbeddingResponse): string {
+  const lines = messages.map((message) => `--- ${message.role}\n${getMessageText(message.content)}`)
+
+  // The vectors themselves are not worth logging
+  if (response && "content" in response) {
+    lines.push(`--- response\n${response.content}`)
+    for (const call of response.toolCalls ?? []) {
+      lines.push(`--- tool call ${call.name}\n${JSON.stringify(call.arguments, null, 2)}`)
+    }
+  }
+
+  return lines.join("\n")
+}
@@ -0,0 +1,38 @@
+const REDACTED = "[REDACTED]"
+
+// Credentials recognisable by their shape, for secrets that are not among the stored API keys, e.g. keys pasted into
+// a prompt or bearer tokens from a credential helper
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  // JSON web tokens, which Entra ID access tokens are
+  /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+  /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+]
+
+// Keeps the label, so the log still shows which credential was there
+const LABELLED_PATTERNS: RegExp[] = [
+  /(\bBearer\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+  /((?:api[-_]?key|access[-_]?token|secret|password)["']?\s*[:=]\s*["']?)[^\s"',;&]{8,}/gi,
+]
+
+// Known secret values (the stored API keys) are replaced wherever they appear; everything else by shape
+export function redactSecrets(text: string, knownSecrets: string[] = []): string {
+  let redacted = text
+
+  // Longest first, so a key that contains another is not left half-redacted
+  for (const secret of [...knownSecrets].filter((value) => value.length >= 8).sort((a, b) => b.length - a.length)) {
+    redacted = redacted.split(secret).join(REDACTED)
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, REDACTED)
+  }
+  for (const pattern of LABELLED_PATTERNS) {
+    redacted = redacted.replace(pattern, `$1${REDACTED}`)
+  }
+
+  return redacted
+}
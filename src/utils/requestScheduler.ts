@@ -0,0 +1,128 @@
+import * as vscode from "vscode"
+import type { LLMCapability, LLMOptions, LLMRequestPriority } from "../providers/llmProvider"
+import { abortError } from "./cancellation"
+
+const PRIORITY_ORDER: LLMRequestPriority[] = ["interactive", "completion", "background"]
+
+const CAPABILITY_PRIORITIES: Record<LLMCapability, LLMRequestPriority> = {
+  chat: "interactive",
+  fix: "interactive",
+  generate: "interactive",
+  explain: "interactive",
+  refactor: "interactive",
+  chain: "interactive",
+  // Fix Code and chain steps wait on it
+  analyze: "interactive",
+  inlineCompletion: "completion",
+  hover: "completion",
+  embed: "background",
+}
+
+type SchedulingOptions = Pick<LLMOptions, "capability" | "priority" | "supersedeKey" | "signal">
+
+interface Waiter {
+  providerId: string
+  priority: number
+  supersedeKey?: string
+  grant(): void
+  reject(error: Error): void
+}
+
+// Limits how many requests run against each provider at once and decides which waiting request goes next: higher
+// priority first, first come first served within a priority. Requests superseded while still waiting are rejected
+// with an AbortError, which every caller already treats as a cancelled request.
+export class RequestScheduler {
+  private readonly waiting: Waiter[] = []
+  private readonly running = new Map<string, number>()
+
+  // Resolves once the request may start, with the function that frees its slot again
+  acquire(providerId: string, options: SchedulingOptions): Promise<() => void> {
+    const { signal, supersedeKey } = options
+    if (signal?.aborted) {
+      return Promise.reject(abortError())
+    }
+
+    if (supersedeKey) {
+      for (const waiter of this.waiting.filter((candidate) => candidate.supersedeKey === supersedeKey)) {
+        this.remove(waiter)
+        waiter.reject(abortError("Superseded by a newer request"))
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.remove(waiter)
+        reject(abortError())
+      }
+
+      const waiter: Waiter = {
+        providerId,
+        priority: PRIORITY_ORDER.indexOf(getPriority(options)),
+        supersedeKey,
+        grant: () => {
+          signal?.removeEventListener("abort", onAbort)
+          resolve(this.createRelease(providerId))
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort)
+          reject(error)
+        },
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true })
+      this.waiting.push(waiter)
+      this.dispatch(providerId)
+    })
+  }
+
+  private dispatch(providerId: string): void {
+    const limit = getConcurrencyLimit(providerId)
+
+    while (limit <= 0 || (this.running.get(providerId) ?? 0) < limit) {
+      // The waiting list is in arrival order, so the first match of the best priority has waited longest
+      const next = this.waiting
+        .filter((waiter) => waiter.providerId === providerId)
+        .reduce<Waiter | undefined>(
+          (best, waiter) => (!best || waiter.priority < best.priority ? waiter : best),
+          undefined,
+        )
+      if (!next) {
+        return
+      }
+
+      this.remove(next)
+      this.running.set(providerId, (this.running.get(providerId) ?? 0) + 1)
+      next.grant()
+    }
+  }
+
+  private createRelease(providerId: string): () => void {
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      this.running.set(providerId, (this.running.get(providerId) ?? 1) - 1)
+      this.dispatch(providerId)
+    }
+  }
+
+  private remove(waiter: Waiter): void {
+    const index = this.waiting.indexOf(waiter)
+    if (index >= 0) {
+      this.waiting.splice(index, 1)
+    }
+  }
+}
+
+function getPriority(options: SchedulingOptions): LLMRequestPriority {
+  return options.priority ?? (options.capability ? CAPABILITY_PRIORITIES[options.capability] : "interactive")
+}
+
+// 0 means no limit
+function getConcurrencyLimit(providerId: string): number {
+  const config = vscode.workspace.getConfiguration("pyr-dev")
+  const providerLimits = config.get<Record<string, number>>("scheduler.providerLimits", {})
+  return providerLimits[providerId] ?? config.get<number>("scheduler.maxConcurrent", 4)
+}
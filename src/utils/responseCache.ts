@@ -0,0 +1,162 @@
+import * as vscode from "vscode"
+import { createHash } from "crypto"
+import type { LLMResponse } from "../providers/llmProvider"
+import type { ProviderLog } from "./providerLog"
+
+interface CacheEntry {
+  createdAt: number
+  response: LLMResponse
+}
+
+interface IndexEntry {
+  size: number
+  createdAt: number
+  lastUsed: number
+}
+
+interface CachePolicy {
+  enabled: boolean
+  ttlMs: number
+  maxSizeBytes: number
+}
+
+// Content-addressed store of LLM responses under the extension's global storage, one JSON file per response.
+// Entries expire after the configured TTL and the least recently used ones are evicted past the size cap.
+// Cache failures are logged and otherwise ignored: a broken cache must never fail a request.
+export class ResponseCache {
+  private index: Map<string, IndexEntry> | undefined
+  private loading: Promise<Map<string, IndexEntry>> | undefined
+
+  constructor(
+    private readonly directory: vscode.Uri,
+    private readonly log?: ProviderLog,
+  ) {}
+
+  static createKey(parts: unknown): string {
+    return createHash("sha256").update(JSON.stringify(parts)).digest("hex")
+  }
+
+  isEnabled(): boolean {
+    return this.getPolicy().enabled
+  }
+
+  async get(key: string): Promise<LLMResponse | undefined> {
+    const policy = this.getPolicy()
+    if (!policy.enabled) return undefined
+
+    try {
+      const index = await this.getIndex()
+      const indexed = index.get(key)
+      if (!indexed) return undefined
+
+      if (Date.now() - indexed.createdAt > policy.ttlMs) {
+        await this.remove(key)
+        return undefined
+      }
+
+      const data = await vscode.workspace.fs.readFile(this.getFile(key))
+      const entry = JSON.parse(Buffer.from(data).toString("utf8")) as CacheEntry
+      indexed.lastUsed = Date.now()
+
+      return entry.response
+    } catch (error) {
+      this.log?.logError("Response cache read failed", error)
+      await this.remove(key)
+      return undefined
+    }
+  }
+
+  async set(key: string, response: LLMResponse): Promise<void> {
+    const policy = this.getPolicy()
+    if (!policy.enabled) return
+
+    try {
+      const index = await this.getIndex()
+      const entry: CacheEntry = { createdAt: Date.now(), response }
+      const data = Buffer.from(JSON.stringify(entry), "utf8")
+
+      await vscode.workspace.fs.writeFile(this.getFile(key), data)
+      index.set(key, { size: data.byteLength, createdAt: entry.createdAt, lastUsed: entry.createdAt })
+
+      await this.evict(policy)
+    } catch (error) {
+      this.log?.logError("Response cache write failed", error)
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.index = new Map()
+    try {
+      await vscode.workspace.fs.delete(this.directory, { recursive: true, useTrash: false })
+    } catch {
+      // Nothing cached yet
+    }
+  }
+
+  private getPolicy(): CachePolicy {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return {
+      enabled: config.get<boolean>("cache.enabled", true),
+      ttlMs: config.get<number>("cache.ttlHours", 24) * 60 * 60 * 1000,
+      maxSizeBytes: config.get<number>("cache.maxSizeMB", 50) * 1024 * 1024,
+    }
+  }
+
+  private getFile(key: string): vscode.Uri {
+    return vscode.Uri.joinPath(this.directory, `${key}.json`)
+  }
+
+  private async getIndex(): Promise<Map<string, IndexEntry>> {
+    if (this.index) return this.index
+
+    this.loading ??= this.loadIndex()
+    this.index = await this.loading
+    this.loading = undefined
+    return this.index
+  }
+
+  // Rebuilds the index from file stats so the cache survives restarts without a separate manifest
+  private async loadIndex(): Promise<Map<string, IndexEntry>> {
+    const index = new Map<string, IndexEntry>()
+    await vscode.workspace.fs.createDirectory(this.directory)
+
+    for (const [name, type] of await vscode.workspace.fs.readDirectory(this.directory)) {
+      if (type !== vscode.FileType.File || !name.endsWith(".json")) continue
+
+      const stat = await vscode.workspace.fs.stat(vscode.Uri.joinPath(this.directory, name))
+      index.set(name.slice(0, -".json".length), { size: stat.size, createdAt: stat.mtime, lastUsed: stat.mtime })
+    }
+
+    return index
+  }
+
+  private async evict(policy: CachePolicy): Promise<void> {
+    const index = await this.getIndex()
+    let total = Array.from(index.values()).reduce((sum, entry) => sum + entry.size, 0)
+    if (total <= policy.maxSizeBytes) return
+
+    const now = Date.now()
+    const byAge = Array.from(index.entries()).sort(([, a], [, b]) => {
+      // Expired entries go first, then the least recently used
+      const aExpired = now - a.createdAt > policy.ttlMs ? 0 : 1
+      const bExpired = now - b.createdAt > policy.ttlMs ? 0 : 1
+      return aExpired - bExpired || a.lastUsed - b.lastUsed
+    })
+
+    // Evict down to 90% so that every following write does not trigger another eviction pass
+    for (const [key, entry] of byAge) {
+      if (total <= policy.maxSizeBytes * 0.9) break
+      await this.remove(key)
+      total -= entry.size
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    this.index?.delete(key)
+    try {
+      await vscode.workspace.fs.delete(this.getFile(key), { useTrash: false })
+    } catch {
+      // Already gone
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import * as vscode from "vscode"
+import { ProviderRegistry } from "../providers/providerRegistry"
+
+const SECRET_PREFIX = "pyr-dev."
+const MIGRATED_STATE_KEY = "pyr-dev.secretsMigrated"
+
+// Keeps provider API keys in VS Code's SecretStorage (OS keychain) instead of settings.json.
+// Secrets are cached in memory so providers can keep reading them synchronously.
+export class SecretManager {
+  private static instance: SecretManager | undefined
+  private cache: Map<string, string> = new Map()
+  private readonly changeEmitter = new vscode.EventEmitter<string>()
+  readonly onDidChange = this.changeEmitter.event
+
+  private constructor(private readonly secrets: vscode.SecretStorage) {}
+
+  static async initialize(context: vscode.ExtensionContext): Promise<SecretManager> {
+    const manager = new SecretManager(context.secrets)
+    SecretManager.instance = manager
+
+    context.subscriptions.push(
+      context.secrets.onDidChange((event) => manager.handleStorageChange(event.key)),
+      manager.changeEmitter,
+    )
+
+    await manager.loadAll()
+    return manager
+  }
+
+  static getInstance(): SecretManager {
+    if (!SecretManager.instance) {
+      throw new Error("SecretManager has not been initialized")
+    }
+    return SecretManager.instance
+  }
+
+  // Setting keys (relative to "pyr-dev") of every provider field marked as secret
+  getSecretKeys(): string[] {
+    return ProviderRegistry.getInstance()
+      .getAll()
+      .flatMap((descriptor) => descriptor.configSchema.filter((field) => field.secret).map((field) => field.key))
+  }
+
+  get(key: string): string {
+    return this.cache.get(key) ?? ""
+  }
+
+  async store(key: string, value: string): Promise<void> {
+    if (value) {
+      await this.secrets.store(SECRET_PREFIX + key, value)
+      this.cache.set(key, value)
+    } else {
+      await this.secrets.delete(SECRET_PREFIX + key)
+      this.cache.delete(key)
+    }
+    this.changeEmitter.fire(key)
+  }
+
+  // Moves plaintext keys out of the user's settings.json into secret storage, once per installation. Workspace
+  // settings are ignored: a cloned repository must not replace the user's keys or have its settings rewritten.
+  // A key already in secret storage wins, and a setting is only cleared once its value is the stored secret.
+  async migrateFromSettings(state: vscode.Memento): Promise<string[]> {
+    if (state.get<boolean>(MIGRATED_STATE_KEY)) {
+      return []
+    }
+
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    const migrated: string[] = []
+
+    for (const key of this.getSecretKeys()) {
+      const value = config.inspect<string>(key)?.globalValue
+      if (!value) continue
+
+      if (!this.get(key)) {
+        await this.store(key, value)
+        migrated.push(key)
+      }
+      if (this.get(key) === value) {
+        await config.update(key, undefined, vscode.ConfigurationTarget.Global)
+      }
+    }
+
+    await state.update(MIGRATED_STATE_KEY, true)
+    return migrated
+  }
+
+  private async loadAll(): Promise<void> {
+    for (const key of this.getSecretKeys()) {
+      const value = await this.secrets.get(SECRET_PREFIX + key)
+      if (value) {
+        this.cache.set(key, value)
+      }
+    }
+  }
+
+  private async handleStorageChange(storageKey: string): Promise<void> {
+    if (!storageKey.startsWith(SECRET_PREFIX)) return
+
+    // Another window may have changed the secret, so re-read it rather than trusting the cache
+    const key = storageKey.slice(SECRET_PREFIX.length)
+    const value = (await this.secrets.get(storageKey)) ?? ""
+
+    if (value !== this.get(key)) {
+      if (value) {
+        this.cache.set(key, value)
+      } else {
+        this.cache.delete(key)
+      }
+      this.changeEmitter.fire(key)
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import * as vscode from "vscode"
+import { getEncoding, type Tiktoken } from "js-tiktoken"
+import type { LLMMessage, LLMRoute } from "../providers/llmProvider"
+import { getMessageImages } from "../providers/messageContent"
+
+export const DEFAULT_CONTEXT_WINDOW = 8192
+
+// Role markers and separators the chat format adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4
+// Roughly what a 1024x1024 image costs on GPT-4o (765) and Gemini (258 per tile), rounded up
+const IMAGE_TOKENS = 1000
+// Non-OpenAI tokenizers differ from cl100k, so keep some headroom rather than filling the window exactly
+const SAFETY_MARGIN = 0.05
+
+// Matched by prefix against the model or deployment name, first match wins
+const CONTEXT_WINDOWS: [string, number][] = [
+  ["gpt-4.1", 1047576],
+  ["gpt-4o", 128000],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4-1106", 128000],
+  ["gpt-4-0125", 128000],
+  ["gpt-4-32k", 32768],
+  ["gpt-4", 8192],
+  ["gpt-35-turbo-16k", 16384],
+  ["gpt-3.5-turbo-16k", 16384],
+  ["gpt-35-turbo", 16385],
+  ["gpt-3.5-turbo", 16385],
+  ["o1", 200000],
+  ["o3", 200000],
+  ["o4", 200000],
+  ["gemini-1.0-pro", 30720],
+  ["gemini-pro", 30720],
+  ["gemini-1.5", 1048576],
+  ["gemini-2", 1048576],
+  ["llama3.1", 131072],
+  ["llama3.2", 131072],
+  ["llama3", 8192],
+  ["qwen2.5-coder", 32768],
+  ["codellama", 16384],
+  ["mistral", 32768],
+  ["deepseek-coder", 16384],
+]
+
+let encoding: Tiktoken | undefined
+
+export function countTokens(text: string): number {
+  if (!text) return 0
+  encoding ??= getEncoding("cl100k_base")
+  return encoding.encode(text).length
+}
+
+export function countMessageTokens(messages: LLMMessage[]): number {
+  return messages.reduce((total, message) => {
+    if (typeof message.content === "string") {
+      return total + countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS
+    }
+
+    const text = message.content.reduce((sum, part) => sum + (part.type === "text" ? countTokens(part.text) : 0), 0)
+    return total + text + getMessageImages(message.content).length * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS
+  }, 0)
+}
+
+// The "pyr-dev.contextWindow" setting wins over the table, for self-hosted models with custom context sizes
+export function getContextWindow(model: string): number {
+  const override = vscode.workspace.getConfiguration("pyr-dev").get<number>("contextWindow", 0)
+  if (override > 0) {
+    return override
+  }
+
+  const name = model.toLowerCase().replace(/^models\//, "")
+  return CONTEXT_WINDOWS.find(([prefix]) => name.startsWith(prefix))?.[1] ?? DEFAULT_CONTEXT_WINDOW
+}
+
+export interface CodeFocus {
+  // Zero-based, inclusive line numbers of the part the user is looking at
+  startLine: number
+  endLine: number
+}
+
+export interface FittedCode {
+  code: string
+  truncated: boolean
+  shownLines: number
+  totalLines: number
+}
+
+// Tracks the input tokens left for one request and records what had to be cut to stay inside them
+export class ContextBudget {
+  readonly notices: string[] = []
+  private remaining: number
+
+  constructor(contextWindow: number, maxTokens: number) {
+    // The answer needs room too, so maxTokens is reserved up front
+    this.remaining = Math.max(0, Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - maxTokens)
+  }
+
+  static forRoute(route: LLMRoute, maxTokens?: number): ContextBudget {
+    const reserved = maxTokens || vscode.workspace.getConfiguration("pyr-dev").get<number>("maxTokens", 4000)
+    return new ContextBudget(route.provider.getContextWindow?.(route.model) ?? DEFAULT_CONTEXT_WINDOW, reserved)
+  }
+
+  get available(): number {
+    return this.remaining
+  }
+
+  get truncated(): boolean {
+    return this.notices.length > 0
+  }
+
+  // Takes tokens for content that must be sent as-is (system prompt, the current question)
+  reserve(messages: LLMMessage[]): void {
+    this.remaining = Math.max(0, this.remaining - countMessageTokens(messages))
+  }
+
+  // Keeps as much of the code as fits in `limit` tokens (default: everything left), centred on the focus
+  fitCode(code: string, focus?: CodeFocus, limit = this.remaining): FittedCode {
+    const lines = code.split("\n")
+    const budget = Math.min(limit, this.remaining)
+
+    const tokens = countTokens(code)
+    if (tokens <= budget) {
+      this.remaining -= tokens
+      return { code, truncated: false, shownLines: lines.length, totalLines: lines.length }
+    }
+
+    const start = clamp(focus?.startLine ?? 0, 0, lines.length - 1)
+    const end = clamp(focus?.endLine ?? start, start, lines.length - 1)
+    let first = start
+    let last = start - 1
+    let used = 0
+
+    const take = (index: number) => {
+      const cost = countTokens(lines[index]) + 1
+      if (used + cost > budget) return false
+      used += cost
+      return true
+    }
+
+    // Grow through the focus first, then outwards one line at a time on each side
+    while (last < end && take(last + 1)) last++
+
+    if (last === end) {
+      let growUp = true
+      while (first > 0 || last < lines.length - 1) {
+        const index = (growUp && first > 0) || last === lines.length - 1 ? first - 1 : last + 1
+        if (!take(index)) break
+        if (index < first) first = index
+        else last = index
+        growUp = !growUp
+      }
+    }
+
+    const parts: string[] = []
+    if (first > 0) parts.push(`[... ${first} lines omitted ...]`)
+    parts.push(...lines.slice(first, last + 1))
+    if (last < lines.length - 1) parts.push(`[... ${lines.length - 1 - last} lines omitted ...]`)
+
+    const shownLines = Math.max(0, last - first + 1)
+    this.remaining -= used
+
+    if (shownLines === 0) {
+      this.notices.push("The code was left out because it does not fit in the model's context window.")
+      return { code: `[... ${lines.length} lines omitted ...]`, truncated: true, shownLines, totalLines: lines.length }
+    }
+
+    this.notices.push(
+      `Only lines ${first + 1}-${last + 1} of ${lines.length} were sent because the code does not fit in the model's context window.`,
+    )
+
+    return { code: parts.join("\n"), truncated: true, shownLines, totalLines: lines.length }
+  }
+
+  // Drops the oldest messages until the rest fit, always keeping the most recent one
+  fitHistory(history: LLMMessage[]): LLMMessage[] {
+    const kept: LLMMessage[] = []
+    let used = 0
+
+    for (let index = history.length - 1; index >= 0; index--) {
+      const cost = countMessageTokens([history[index]])
+      if (kept.length > 0 && used + cost > this.remaining) break
+      kept.unshift(history[index])
+      used += cost
+    }
+
+    // A tool result without the assistant message that requested it is rejected by the APIs
+    while (kept.length > 1 && kept[0].role === "tool") {
+      used -= countMessageTokens([kept.shift()!])
+    }
+
+    this.remaining = Math.max(0, this.remaining - used)
+
+    const dropped = history.length - kept.length
+    if (dropped > 0) {
+      this.notices.push(
+        `The ${dropped} oldest conversation message(s) were left out to fit the model's context window.`,
+      )
+    }
+
+    return kept
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
@@ -0,0 +1,106 @@
+import * as vscode from "vscode"
+import * as fs from "fs"
+import * as http from "http"
+import * as https from "https"
+import * as tls from "tls"
+import { AsyncLocalStorage } from "async_hooks"
+import { HttpsProxyAgent } from "https-proxy-agent"
+import { Agent as UndiciAgent, ProxyAgent, fetch as undiciFetch, type Dispatcher } from "undici"
+
+export interface TransportSettings {
+  proxy?: string
+  // Trusted in addition to Node's bundled root certificates
+  caFile?: string
+  timeoutMs?: number
+  headers: Record<string, string>
+}
+
+// Shared by every provider that talks HTTP: SDKs built on Node's http module take the agent, fetch-based ones
+// run their requests inside runWithDispatcher. Timeout and headers go into each SDK's own client options.
+export function getTransportSettings(): TransportSettings {
+  const config = vscode.workspace.getConfiguration("pyr-dev")
+  const timeoutSeconds = config.get<number>("network.timeoutSeconds", 0)
+
+  return {
+    proxy: config.get<string>("network.proxy", "").trim() || undefined,
+    caFile: config.get<string>("network.caFile", "").trim() || undefined,
+    timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+    headers: config.get<Record<string, string>>("network.headers", {}),
+  }
+}
+
+// Undefined when the defaults already do the job, so the SDK keeps its own connection handling
+export function createHttpAgent(targetUrl: string, settings = getTransportSettings()): http.Agent | undefined {
+  const ca = loadCertificates(settings.caFile)
+  const proxy = usesProxy(targetUrl, settings) ? settings.proxy : undefined
+
+  if (proxy) {
+    return new HttpsProxyAgent(proxy, { ca, keepAlive: true })
+  }
+  if (ca && new URL(targetUrl).protocol === "https:") {
+    return new https.Agent({ ca, keepAlive: true })
+  }
+  return undefined
+}
+
+export function createDispatcher(targetUrl: string, settings = getTransportSettings()): Dispatcher | undefined {
+  const ca = loadCertificates(settings.caFile)
+  const proxy = usesProxy(targetUrl, settings) ? settings.proxy : undefined
+
+  if (proxy) {
+    return new ProxyAgent({ uri: proxy, requestTls: { ca }, proxyTls: { ca } })
+  }
+  if (ca) {
+    return new UndiciAgent({ connect: { ca } })
+  }
+  return undefined
+}
+
+const scopedDispatcher = new AsyncLocalStorage<Dispatcher>()
+let fetchPatched = false
+
+// For SDKs that call the global fetch and accept no agent (the Gemini SDK). Only fetches made while `request`
+// runs go through the dispatcher; the extension host's other fetches, other extensions' included, are untouched.
+export function runWithDispatcher<T>(dispatcher: Dispatcher | undefined, request: () => Promise<T>): Promise<T> {
+  if (!dispatcher) {
+    return request()
+  }
+
+  patchGlobalFetch()
+  return scopedDispatcher.run(dispatcher, request)
+}
+
+function patchGlobalFetch(): void {
+  if (fetchPatched) {
+    return
+  }
+
+  const globalFetch = (globalThis as any).fetch
+  ;(globalThis as any).fetch = (input: any, init?: any) => {
+    const dispatcher = scopedDispatcher.getStore()
+    return dispatcher ? undiciFetch(input, { ...init, dispatcher }) : globalFetch(input, init)
+  }
+  fetchPatched = true
+}
+
+function loadCertificates(caFile?: string): string[] | undefined {
+  if (!caFile) {
+    return undefined
+  }
+
+  try {
+    return [...tls.rootCertificates, fs.readFileSync(caFile, "utf8")]
+  } catch (error: any) {
+    throw new Error(`CA bundle ${caFile} could not be read: ${error.message}`)
+  }
+}
+
+// Local servers (Ollama, LM Studio...) are never reachable through a corporate proxy
+function usesProxy(targetUrl: string, settings: TransportSettings): boolean {
+  if (!settings.proxy) {
+    return false
+  }
+
+  const host = new URL(targetUrl).hostname
+  return !["localhost", "127.0.0.1", "[::1]", "::1"].includes(host)
+}
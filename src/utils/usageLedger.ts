@@ -0,0 +1,222 @@
+import * as vscode from "vscode"
+
+export interface UsageRecord {
+  provider: string
+  model: string
+  capability: string
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface UsageBucket extends UsageRecord {
+  requests: number
+  cost: number
+}
+
+export interface UsageTotals {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  cost: number
+}
+
+export type UsagePeriod = "daily" | "monthly"
+
+export interface ModelPrice {
+  // USD per million tokens
+  input: number
+  output: number
+}
+
+export interface BudgetStatus {
+  period: UsagePeriod
+  spent: number
+  budget: number
+}
+
+// List prices in USD per million tokens, matched by the longest model-name prefix.
+// "pyr-dev.usage.prices" entries take precedence; unknown (e.g. local) models cost nothing.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4-32k": { input: 60, output: 120 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-35-turbo": { input: 0.5, output: 1.5 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-pro": { input: 0.5, output: 1.5 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+}
+
+const STATE_KEY = "pyr-dev.usageLedger"
+// Days of history kept for the usage report
+const RETENTION_DAYS = 93
+
+export class BudgetExceededError extends Error {
+  constructor(readonly status: BudgetStatus) {
+    super(
+      `The ${status.period} LLM budget of $${status.budget.toFixed(2)} is used up ($${status.spent.toFixed(2)} spent). ` +
+        `Raise "pyr-dev.${budgetSetting(status.period)}" or set "pyr-dev.usage.budgetAction" to "warn" to keep going.`,
+    )
+    this.name = "BudgetExceededError"
+  }
+}
+
+// Keeps per-day usage aggregated by provider, model and capability in global state, so totals survive restarts
+// and are shared by every window.
+export class UsageLedger {
+  private readonly changeEmitter = new vscode.EventEmitter<void>()
+  readonly onDidChange = this.changeEmitter.event
+  private readonly budgetEmitter = new vscode.EventEmitter<BudgetStatus>()
+  readonly onBudgetExceeded = this.budgetEmitter.event
+  // "<period>:<day or month>" keys already reported, so each budget warns once per period
+  private reported = new Set<string>()
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  record(record: UsageRecord): void {
+    const days = this.getDays()
+    const today = dayKey(new Date())
+    const buckets = days[today] ?? []
+
+    let bucket = buckets.find(
+      (entry) =>
+        entry.provider === record.provider && entry.model === record.model && entry.capability === record.capability,
+    )
+    if (!bucket) {
+      bucket = { ...record, promptTokens: 0, completionTokens: 0, requests: 0, cost: 0 }
+      buckets.push(bucket)
+    }
+
+    bucket.requests++
+    bucket.promptTokens += record.promptTokens
+    bucket.completionTokens += record.completionTokens
+    bucket.cost += this.getCost(record.model, record.promptTokens, record.completionTokens)
+    days[today] = buckets
+
+    void this.state.update(STATE_KEY, pruneDays(days))
+    this.changeEmitter.fire()
+
+    const exceeded = this.getExceededBudget()
+    if (exceeded) {
+      const reportKey = `${exceeded.period}:${exceeded.period === "daily" ? today : today.slice(0, 7)}`
+      if (!this.reported.has(reportKey)) {
+        this.reported.add(reportKey)
+        this.budgetEmitter.fire(exceeded)
+      }
+    }
+  }
+
+  // Throws when a budget is used up and the user asked for requests to be blocked
+  checkBudget(): void {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    if (config.get<string>("usage.budgetAction", "warn") !== "block") return
+
+    const exceeded = this.getExceededBudget()
+    if (exceeded) {
+      throw new BudgetExceededError(exceeded)
+    }
+  }
+
+  getExceededBudget(): BudgetStatus | undefined {
+    return this.getBudgets().find((status) => status.budget > 0 && status.spent >= status.budget)
+  }
+
+  getBudgets(): BudgetStatus[] {
+    const config = vscode.workspace.getConfiguration("pyr-dev")
+    return [
+      { period: "daily", spent: this.getTotals("daily").cost, budget: config.get<number>("usage.dailyBudget", 0) },
+      {
+        period: "monthly",
+        spent: this.getTotals("monthly").cost,
+        budget: config.get<number>("usage.monthlyBudget", 0),
+      },
+    ]
+  }
+
+  getBreakdown(period: UsagePeriod, date = new Date()): UsageBucket[] {
+    const prefix = period === "daily" ? dayKey(date) : dayKey(date).slice(0, 7)
+    const merged = new Map<string, UsageBucket>()
+
+    for (const [day, buckets] of Object.entries(this.getDays())) {
+      if (!day.startsWith(prefix)) continue
+
+      for (const bucket of buckets) {
+        const key = `${bucket.provider}\n${bucket.model}\n${bucket.capability}`
+        const total = merged.get(key) ?? { ...bucket, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+        total.requests += bucket.requests
+        total.promptTokens += bucket.promptTokens
+        total.completionTokens += bucket.completionTokens
+        total.cost += bucket.cost
+        merged.set(key, total)
+      }
+    }
+
+    return Array.from(merged.values()).sort((a, b) => b.cost - a.cost || b.promptTokens - a.promptTokens)
+  }
+
+  getTotals(period: UsagePeriod, date = new Date()): UsageTotals {
+    return this.getBreakdown(period, date).reduce(
+      (totals, bucket) => ({
+        requests: totals.requests + bucket.requests,
+        promptTokens: totals.promptTokens + bucket.promptTokens,
+        completionTokens: totals.completionTokens + bucket.completionTokens,
+        cost: totals.cost + bucket.cost,
+      }),
+      { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 },
+    )
+  }
+
+  getCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.getPrice(model)
+    return price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : 0
+  }
+
+  async reset(): Promise<void> {
+    this.reported.clear()
+    await this.state.update(STATE_KEY, {})
+    this.changeEmitter.fire()
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose()
+    this.budgetEmitter.dispose()
+  }
+
+  private getPrice(model: string): ModelPrice | undefined {
+    const configured = vscode.workspace.getConfiguration("pyr-dev").get<Record<string, ModelPrice>>("usage.prices", {})
+    const prices = { ...DEFAULT_PRICES, ...configured }
+    const name = model.toLowerCase().replace(/^models\//, "")
+
+    const match = Object.keys(prices)
+      .filter((prefix) => name.startsWith(prefix.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0]
+
+    return match ? prices[match] : undefined
+  }
+
+  private getDays(): Record<string, UsageBucket[]> {
+    // Copy so that callers never mutate the object held by the Memento
+    return JSON.parse(JSON.stringify(this.state.get<Record<string, UsageBucket[]>>(STATE_KEY, {})))
+  }
+}
+
+export function budgetSetting(period: UsagePeriod): string {
+  return period === "daily" ? "usage.dailyBudget" : "usage.monthlyBudget"
+}
+
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function pruneDays(days: Record<string, UsageBucket[]>): Record<string, UsageBucket[]> {
+  const cutoff = dayKey(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000))
+  return Object.fromEntries(Object.entries(days).filter(([day]) => day >= cutoff))
+}
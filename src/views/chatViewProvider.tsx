@@ -1,11 +1,17 @@
 import * as vscode from "vscode"
 import type { PyrDevAgent } from "../agent/pyrDevAgent"
+import type { LLMImagePart } from "../providers/llmProvider"
+import { LLMProviderError, describeProviderError, needsApiKey } from "../providers/providerErrors"
+import { getMessageText } from "../providers/messageContent"
+import { pickWorkspaceImages, readImagePart } from "../utils/imageAttachments"
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = "pyr-dev.chatView"
 
   private _view?: vscode.WebviewView
   private _agent: PyrDevAgent
+  // Images waiting to be sent with the next message
+  private _attachments: LLMImagePart[] = []
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
@@ -52,6 +58,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         case "getCodeContext":
           this.sendCodeContext()
           break
+        case "attachImage":
+          await this.attachImages()
+          break
+        case "removeAttachments":
+          this._attachments = []
+          this.sendAttachments()
+          break
       }
     })
 
@@ -62,8 +75,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private async handleSendMessage(message: string) {
     if (!this._view) return
 
+    const images = this._attachments
+    this._attachments = []
+    this.sendAttachments()
+
     // Add user message to chat
-    this.addMessage("user", message)
+    this.addMessage(
+      "user",
+      images.length ? `${message}\n\n*Attached: ${images.map((image) => image.name).join(", ")}*` : message,
+    )
 
     // Get current editor context
     const editor = vscode.window.activeTextEditor
@@ -72,9 +92,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
           code: editor.document.getText(),
           language: editor.document.languageId,
           selection: editor.selection ? editor.document.getText(editor.selection) : undefined,
+          focus: { startLine: editor.selection.start.line, endLine: editor.selection.end.line },
           filePath: editor.document.fileName,
+          images,
         }
-      : undefined
+      : { images }
 
     try {
       // Show typing indicator
@@ -99,6 +121,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         isTyping: false,
       })
 
+      if (error instanceof LLMProviderError) {
+        const { summary, detail } = describeProviderError(error)
+        this.addMessage("assistant", `**${summary}**\n\n${detail}`)
+
+        if (needsApiKey(error)) {
+          const action = await vscode.window.showErrorMessage(`Pyr Dev: ${detail}`, "Set API Key")
+          if (action === "Set API Key") {
+            vscode.commands.executeCommand("pyr-dev.setApiKey")
+          }
+        } else {
+          vscode.window.showErrorMessage(`Pyr Dev: ${detail}`)
+        }
+        return
+      }
+
       this.addMessage("assistant", `Error: ${error.message}`)
       vscode.window.showErrorMessage(`Pyr Dev Error: ${error.message}`)
     }
@@ -133,7 +170,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       return
     }
 
-    const exportContent = history.map((msg) => `**${msg.role.toUpperCase()}**: ${msg.content}`).join("\n\n---\n\n")
+    const exportContent = history
+      .map((msg) => `**${msg.role.toUpperCase()}**: ${getMessageText(msg.content)}`)
+      .join("\n\n---\n\n")
 
     vscode.workspace
       .openTextDocument({
@@ -190,6 +229,27 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     })
   }
 
+  private async attachImages() {
+    const uris = await pickWorkspaceImages()
+
+    for (const uri of uris) {
+      try {
+        this._attachments.push(await readImagePart(uri))
+      } catch (error: any) {
+        vscode.window.showWarningMessage(`Pyr Dev: ${error.message}`)
+      }
+    }
+
+    this.sendAttachments()
+  }
+
+  private sendAttachments() {
+    this._view?.webview.postMessage({
+      type: "attachments",
+      names: this._attachments.map((image) => image.name),
+    })
+  }
+
   private loadConversationHistory() {
     const history = this._agent.getConversationHistory()
     if (history.length > 0) {
@@ -197,7 +257,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         type: "loadHistory",
         messages: history.map((msg) => ({
           role: msg.role,
-          content: msg.content,
+          content: getMessageText(msg.content),
           timestamp: new Date().toISOString(),
         })),
       })
@@ -240,6 +300,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             </div>
           </div>
           
+          <div class="context-info attachment-info" id="attachmentInfo" style="display: none;">
+            <div class="context-content">
+              <span class="codicon codicon-file-media"></span>
+              <span class="attachment-names"></span>
+              <button id="removeAttachmentsBtn" class="icon-button" title="Remove Attachments">
+                <span class="codicon codicon-close"></span>
+              </button>
+            </div>
+          </div>
+
           <div class="context-info" id="contextInfo" style="display: none;">
             <div class="context-content">
               <span class="context-file"></span>
@@ -289,6 +359,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 <span class="codicon codicon-file-code"></span>
                 Include Context
               </button>
+              <button id="attachBtn" class="action-button" title="Attach an Image from the Workspace">
+                <span class="codicon codicon-file-media"></span>
+                Attach Image
+              </button>
             </div>
           </div>
         </div>
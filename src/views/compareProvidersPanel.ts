@@ -0,0 +1,192 @@
+import * as vscode from "vscode"
+import type { ComparisonRequest, PyrDevAgent } from "../agent/pyrDevAgent"
+import type { FailoverCandidate } from "../providers/failoverProvider"
+import type { LLMResponse } from "../providers/llmProvider"
+import { LLMProviderError, describeProviderError } from "../providers/providerErrors"
+import { ProviderRegistry } from "../providers/providerRegistry"
+import { isAbortError } from "../utils/cancellation"
+
+interface ComparisonAnswer {
+  providerId: string
+  providerName: string
+  // The configured model until the response names the one that answered
+  model: string
+  response?: LLMResponse
+  error?: string
+  durationMs?: number
+}
+
+const APPLY_LABELS: Record<ComparisonRequest["kind"], string> = {
+  explain: "Send to Chat",
+  refactor: "Replace Selection",
+  generate: "Insert Code",
+}
+
+// Sends one request to several providers in parallel and shows the answers side by side with their latency and
+// token usage. Only one comparison is shown at a time; starting another closes the previous one and cancels whatever
+// it was still waiting for.
+export class CompareProvidersPanel {
+  public static readonly viewType = "pyr-dev.compareProviders"
+
+  private static _current: CompareProvidersPanel | undefined
+
+  private readonly _panel: vscode.WebviewPanel
+  private readonly _abortController = new AbortController()
+  private readonly _answers: ComparisonAnswer[]
+  private _disposables: vscode.Disposable[] = []
+
+  public static show(
+    extensionUri: vscode.Uri,
+    agent: PyrDevAgent,
+    request: ComparisonRequest,
+    candidates: Array<FailoverCandidate & { model: string }>,
+    apply: (content: string) => Promise<void>,
+  ) {
+    CompareProvidersPanel._current?.dispose()
+    CompareProvidersPanel._current = new CompareProvidersPanel(extensionUri, agent, request, candidates, apply)
+  }
+
+  private constructor(
+    private readonly _extensionUri: vscode.Uri,
+    private readonly _agent: PyrDevAgent,
+    private readonly _request: ComparisonRequest,
+    candidates: Array<FailoverCandidate & { model: string }>,
+    private readonly _apply: (content: string) => Promise<void>,
+  ) {
+    this._panel = vscode.window.createWebviewPanel(
+      CompareProvidersPanel.viewType,
+      "Compare Providers",
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        localResourceRoots: [this._extensionUri],
+        // Answers cost money; switching tabs must not throw them away
+        retainContextWhenHidden: true,
+      },
+    )
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview)
+
+    const registry = ProviderRegistry.getInstance()
+    this._answers = candidates.map(({ id, model }) => ({
+      providerId: id,
+      providerName: registry.get(id)?.displayName ?? id,
+      model,
+    }))
+
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables)
+
+    // Handle messages from the webview
+    this._panel.webview.onDidReceiveMessage(
+      async (data) => {
+        switch (data.type) {
+          case "ready":
+            this.update()
+            break
+          case "apply":
+            await this.applyAnswer(data.index)
+            break
+        }
+      },
+      null,
+      this._disposables,
+    )
+
+    candidates.forEach((candidate, index) => this.ask(candidate, index))
+  }
+
+  public dispose() {
+    if (CompareProvidersPanel._current === this) {
+      CompareProvidersPanel._current = undefined
+    }
+
+    this._abortController.abort()
+    this._panel.dispose()
+    this._disposables.forEach((disposable) => disposable.dispose())
+    this._disposables = []
+  }
+
+  private async ask(candidate: FailoverCandidate, index: number) {
+    const signal = this._abortController.signal
+    const answer = this._answers[index]
+    const started = Date.now()
+
+    try {
+      answer.response = await this._agent.compareOn(candidate.provider, this._request, signal)
+      answer.model = answer.response.model || answer.model
+    } catch (error: any) {
+      if (isAbortError(error, signal)) {
+        return
+      }
+      answer.error = error instanceof LLMProviderError ? describeProviderError(error).detail : error.message
+    }
+
+    answer.durationMs = Date.now() - started
+    this.update()
+  }
+
+  private async applyAnswer(index: number) {
+    const answer = this._answers[index]
+    if (!answer?.response) return
+
+    try {
+      await this._apply(answer.response.content)
+      vscode.window.showInformationMessage(`Applied the answer from ${answer.providerName}`)
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Pyr Dev: ${error.message}`)
+    }
+  }
+
+  private update() {
+    this._panel.webview.postMessage({
+      type: "update",
+      kind: this._request.kind,
+      applyLabel: APPLY_LABELS[this._request.kind],
+      answers: this._answers.map((answer) => ({
+        providerName: answer.providerName,
+        model: answer.model,
+        content: answer.response?.content,
+        finishReason: answer.response?.finishReason,
+        usage: answer.response?.usage,
+        error: answer.error,
+        durationMs: answer.durationMs,
+      })),
+    })
+  }
+
+  private _getHtmlForWebview(webview: vscode.Webview) {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, "media", "compare.js"))
+    const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, "media", "compare.css"))
+
+    const nonce = getNonce()
+
+    return `<!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <link href="${styleUri}" rel="stylesheet">
+        <title>Compare Providers</title>
+      </head>
+      <body>
+        <div class="compare-container">
+          <div class="header">
+            <h3 id="title">Compare Providers</h3>
+          </div>
+          <div class="answers" id="answers"></div>
+        </div>
+
+        <script nonce="${nonce}" src="${scriptUri}"></script>
+      </body>
+      </html>`
+  }
+}
+
+function getNonce() {
+  let text = ""
+  const possible = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"
+  for (let i = 0; i < 32; i++) {
+    text += possible.charAt(Math.floor(Math.random() * possible.length))
+  }
+  return text
+}